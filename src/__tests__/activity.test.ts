@@ -0,0 +1,59 @@
+import { createSDK, ok, address } from './helpers';
+
+const HASH = `0x${'a'.repeat(64)}`;
+
+function transfer(fields: Record<string, string>) {
+  return {
+    blockNumber: '100',
+    timeStamp: '1700000000',
+    hash: HASH,
+    transactionIndex: '3',
+    ...fields,
+  };
+}
+
+describe('getActivity', () => {
+  it('sorts the transfers of a transaction by log index', async () => {
+    const results: Record<string, unknown[]> = {
+      txlist: [transfer({})],
+      txlistinternal: [transfer({ traceId: '0' })],
+      tokentx: [transfer({ logIndex: '7', value: '1' })],
+      tokennfttx: [transfer({ logIndex: '5', tokenID: '1' })],
+      token1155tx: [transfer({ logIndex: '6', tokenValue: '1' })],
+    };
+    const { sdk } = createSDK((params) =>
+      ok(results[params.get('action') as string])
+    );
+
+    const activity = await sdk.accounts.getActivity(address(1));
+
+    expect(activity).toHaveLength(1);
+    expect(activity[0].entries.map((entry) => entry.type)).toEqual([
+      'normal',
+      'internal',
+      'erc721',
+      'erc1155',
+      'token',
+    ]);
+  });
+
+  it('falls back to the transfer type without log indexes', async () => {
+    const results: Record<string, unknown[]> = {
+      txlist: [],
+      txlistinternal: [],
+      tokentx: [transfer({ value: '1' })],
+      tokennfttx: [transfer({ tokenID: '1' })],
+      token1155tx: [],
+    };
+    const { sdk } = createSDK((params) =>
+      ok(results[params.get('action') as string])
+    );
+
+    const activity = await sdk.accounts.getActivity(address(1));
+
+    expect(activity[0].entries.map((entry) => entry.type)).toEqual([
+      'token',
+      'erc721',
+    ]);
+  });
+});
@@ -0,0 +1,85 @@
+import { createSDK, notOk, ok, address } from './helpers';
+import {
+  DailyLimitError,
+  EtherscanAPIError,
+  InvalidApiKeyError,
+} from '../types';
+import { ApiKeyPool } from '../utils/api-key-pool';
+
+describe('API key rotation', () => {
+  it('skips invalid keys and keeps using the valid ones', async () => {
+    const { sdk, params } = createSDK(
+      (query) =>
+        query.get('apikey') === 'bad' ? notOk('Invalid API Key') : ok('100'),
+      { apiKey: ['bad', 'good'], apiKeyStrategy: 'round-robin' }
+    );
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).resolves.toBe('100');
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).resolves.toBe('100');
+
+    expect(params().map((query) => query.get('apikey'))).toEqual([
+      'bad',
+      'good',
+      'good',
+    ]);
+  });
+
+  it('fails once every key of the pool is quarantined', async () => {
+    const { sdk, requests } = createSDK(() => notOk('Invalid API Key'), {
+      apiKey: ['a', 'b', 'c'],
+    });
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(InvalidApiKeyError);
+    expect(requests).toHaveLength(3);
+  });
+
+  it('stops asking a key provider that keeps handing out bad keys', async () => {
+    let calls = 0;
+    const { sdk, requests } = createSDK(
+      () => notOk('Max daily rate limit reached'),
+      {
+        apiKey: () => `key-${calls++}`,
+        retry: { maxAttempts: 3, baseDelay: 1, jitter: false },
+      }
+    );
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(DailyLimitError);
+    expect(requests).toHaveLength(4);
+  });
+
+  it('rejects when the key provider only returns quarantined keys', async () => {
+    const pool = new ApiKeyPool(() => 'bad', 'round-robin', {
+      requestsPerSecond: 5,
+    });
+
+    pool.reportFailure(await pool.acquire(), new InvalidApiKeyError('bad'));
+
+    await expect(pool.acquire()).rejects.toBeInstanceOf(EtherscanAPIError);
+  });
+
+  it('keeps the daily usage of every key when the limits change', async () => {
+    const pool = new ApiKeyPool('key', 'round-robin', {
+      requestsPerSecond: 5,
+      requestsPerDay: 2,
+    });
+    const entry = await pool.acquire();
+
+    await entry.limiter.schedule(async () => 'ok');
+    pool.setRateLimit({ requestsPerSecond: 10, requestsPerDay: 2 });
+
+    expect((await pool.acquire()).limiter).toBe(entry.limiter);
+    expect(pool.getStats()[0].dailyUsage).toBe(1);
+    expect(pool.getState()).toMatchObject({
+      requestsPerSecond: 10,
+      dailyRemaining: 1,
+    });
+  });
+});
@@ -0,0 +1,34 @@
+import { createSDK, ok, address } from './helpers';
+
+const DATE = new Date(1700000000 * 1000);
+
+describe('balances at a date', () => {
+  it('resolves the block with the blocks module of the client', async () => {
+    const { sdk, params } = createSDK((query) =>
+      query.get('action') === 'getblocknobytime' ? ok('100') : ok('42')
+    );
+    const resolve = jest.spyOn(sdk.blocks, 'getBlockNumberByTimestamp');
+
+    await expect(
+      sdk.accounts.getBalanceAt({ address: address(1), date: DATE })
+    ).resolves.toMatchObject({ blockNumber: 100, balance: '42' });
+    await expect(
+      sdk.tokens.getTokenBalanceAt({
+        contractAddress: address(2),
+        address: address(1),
+        date: DATE,
+      })
+    ).resolves.toMatchObject({ blockNumber: 100, balance: '42' });
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+    expect(resolve).toHaveBeenCalledWith(1700000000, undefined, {
+      normalize: false,
+    });
+    expect(params().map((query) => query.get('blockno'))).toEqual([
+      null,
+      '100',
+      null,
+      '100',
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+import { createSDK, notOk, ok, address } from './helpers';
+import {
+  BatchError,
+  EtherscanAPIError,
+  EtherscanValidationError,
+} from '../types';
+
+const ADDRESSES = Array.from({ length: 45 }, (_, index) => address(index + 1));
+
+function balances(params: URLSearchParams) {
+  return (params.get('address') as string).split(',').map((account) => ({
+    account,
+    balance: String(parseInt(account, 16)),
+  }));
+}
+
+describe('getBalanceMulti', () => {
+  it('splits addresses into requests of 20', async () => {
+    const { sdk, params } = createSDK((query) => ok(balances(query)));
+
+    const result = await sdk.accounts.getBalanceMulti({
+      addresses: ADDRESSES,
+    });
+
+    expect(result.map((entry) => entry.account)).toEqual(ADDRESSES);
+    expect(
+      params().map(
+        (query) => (query.get('address') as string).split(',').length
+      )
+    ).toEqual([20, 20, 5]);
+  });
+
+  it('keeps the balances of the requests that succeeded', async () => {
+    const { sdk } = createSDK((query) =>
+      query.get('address')?.startsWith(address(21))
+        ? notOk('Error! Something went wrong')
+        : ok(balances(query))
+    );
+
+    const error = await sdk.accounts
+      .getBalanceMulti({ addresses: ADDRESSES })
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(BatchError);
+    const batch = error as BatchError<{ account: string }>;
+    expect(batch.results.map((entry) => entry.account)).toEqual([
+      ...ADDRESSES.slice(0, 20),
+      ...ADDRESSES.slice(40),
+    ]);
+    expect(batch.failures).toHaveLength(1);
+    expect(batch.failures[0].inputs).toEqual(ADDRESSES.slice(20, 40));
+    expect(batch.failures[0].error).toBeInstanceOf(EtherscanAPIError);
+  });
+
+  it('throws the underlying error when every request fails', async () => {
+    const { sdk } = createSDK(() => notOk('Error! Something went wrong'));
+
+    const error = await sdk.accounts
+      .getBalanceMulti({ addresses: ADDRESSES })
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(EtherscanAPIError);
+    expect(error).not.toBeInstanceOf(BatchError);
+  });
+
+  it('rejects invalid addresses before sending anything', async () => {
+    const { sdk, requests } = createSDK((query) => ok(balances(query)));
+
+    await expect(
+      sdk.accounts.getBalanceMulti({ addresses: [address(1), '0x123'] })
+    ).rejects.toBeInstanceOf(EtherscanValidationError);
+    expect(requests).toHaveLength(0);
+  });
+});
@@ -0,0 +1,87 @@
+import { createSDK, ok, address, pageOf } from './helpers';
+import { EtherscanValidationError } from '../types';
+import { collect } from '../utils/paginate';
+
+const WITHDRAWALS = Array.from({ length: 5 }, (_, index) => ({
+  withdrawalIndex: String(1000 + index),
+  validatorIndex: '123456',
+  address: address(1),
+  amount: '16354195',
+  blockNumber: String(17000000 + index),
+  timestamp: String(1700000000 + index * 12),
+}));
+
+describe('beacon withdrawals', () => {
+  it('requests the withdrawals of an address', async () => {
+    const { sdk, params } = createSDK(() => ok(WITHDRAWALS.slice(0, 2)));
+
+    await expect(
+      sdk.accounts.getBeaconWithdrawals({
+        address: address(1),
+        startBlock: 17000000,
+        endBlock: 18000000,
+        page: 1,
+        offset: 2,
+        sort: 'desc',
+      })
+    ).resolves.toEqual(WITHDRAWALS.slice(0, 2));
+
+    expect(Object.fromEntries(params()[0])).toMatchObject({
+      module: 'account',
+      action: 'txsBeaconWithdrawal',
+      address: address(1),
+      startblock: '17000000',
+      endblock: '18000000',
+      page: '1',
+      offset: '2',
+      sort: 'desc',
+    });
+  });
+
+  it('validates the address and block numbers', async () => {
+    const { sdk, requests } = createSDK(() => ok([]));
+
+    await expect(
+      sdk.accounts.getBeaconWithdrawals({ address: 'not-an-address' })
+    ).rejects.toBeInstanceOf(EtherscanValidationError);
+    await expect(
+      sdk.accounts.getBeaconWithdrawals({ address: address(1), startBlock: -1 })
+    ).rejects.toBeInstanceOf(EtherscanValidationError);
+    expect(requests).toHaveLength(0);
+  });
+
+  it('iterates over every page', async () => {
+    const { sdk, params } = createSDK((query) =>
+      ok(pageOf(WITHDRAWALS, query))
+    );
+
+    const withdrawals = await collect(
+      sdk.accounts.iterateBeaconWithdrawals(
+        { address: address(1) },
+        { pageSize: 2 }
+      )
+    );
+
+    expect(withdrawals).toEqual(WITHDRAWALS);
+    expect(params().map((query) => query.get('page'))).toEqual(['1', '2', '3']);
+  });
+
+  it('converts amounts and dates with normalize', async () => {
+    const { sdk } = createSDK(() => ok(WITHDRAWALS.slice(0, 1)), {
+      normalize: true,
+    });
+
+    const [withdrawal] = await sdk.accounts.getBeaconWithdrawals({
+      address: address(1),
+    });
+
+    expect(withdrawal).toEqual({
+      withdrawalIndex: 1000,
+      validatorIndex: 123456,
+      address: address(1),
+      amount: BigInt(16354195),
+      blockNumber: 17000000,
+      timestamp: new Date(1700000000 * 1000),
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { createSDK, ok, address, pageOf } from './helpers';
+import { ResultWindowTooLargeError } from '../types';
+import { collect } from '../utils/paginate';
+
+function transactions(count: number, perBlock: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    blockNumber: String(Math.floor(index / perBlock)),
+    hash: `0x${index.toString(16).padStart(64, '0')}`,
+  }));
+}
+
+describe('block range iteration', () => {
+  it('restarts at the last block of a full window without duplicates', async () => {
+    const records = transactions(25000, 3);
+    const { sdk, params } = createSDK((query) => ok(pageOf(records, query)));
+
+    const result = await collect(
+      sdk.accounts.iterateAllTransactions(
+        { address: address(1) },
+        { pageSize: 5000 }
+      )
+    );
+
+    expect(result.map((record) => record.hash)).toEqual(
+      records.map((record) => record.hash)
+    );
+    expect(params().map((query) => query.get('startblock'))).toEqual([
+      '0',
+      '0',
+      '3333',
+      '3333',
+      '6666',
+      '6666',
+    ]);
+    expect(params().every((query) => query.get('sort') === 'asc')).toBe(true);
+  });
+
+  it('stops at the end block', async () => {
+    const records = transactions(300, 1);
+    const { sdk } = createSDK((query) => ok(pageOf(records, query)));
+
+    const result = await collect(
+      sdk.accounts.iterateAllTransactions(
+        { address: address(1), startBlock: 100, endBlock: 199 },
+        { pageSize: 50 }
+      )
+    );
+
+    expect(result).toEqual(records.slice(100, 200));
+  });
+
+  it('fails when a single block fills the window', async () => {
+    const records = transactions(10001, 10001);
+    const { sdk } = createSDK((query) => ok(pageOf(records, query)));
+
+    await expect(
+      collect(
+        sdk.accounts.iterateAllTransactions(
+          { address: address(1) },
+          { pageSize: 5000 }
+        )
+      )
+    ).rejects.toBeInstanceOf(ResultWindowTooLargeError);
+  });
+});
@@ -0,0 +1,108 @@
+import { createSDK, notOk, ok, address } from './helpers';
+import { MemoryCacheStore } from '../utils/cache';
+
+const ACCOUNT = { address: address(1) };
+const TX_HASH = `0x${'d'.repeat(64)}`;
+
+describe('response cache', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('serves responses until their TTL expires', async () => {
+    jest.useFakeTimers();
+    const { sdk, requests } = createSDK(() => ok('100'), {
+      cache: { ttls: { 'account.balance': 1000 } },
+    });
+
+    await sdk.accounts.getBalance(ACCOUNT);
+    await sdk.accounts.getBalance(ACCOUNT);
+    expect(requests).toHaveLength(1);
+
+    jest.advanceTimersByTime(1001);
+    await sdk.accounts.getBalance(ACCOUNT);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('only caches actions with a TTL', async () => {
+    const { sdk, requests } = createSDK(
+      (params) => ok(params.get('action') === 'getabi' ? '[]' : '100'),
+      { cache: true }
+    );
+
+    await sdk.accounts.getBalance(ACCOUNT);
+    await sdk.accounts.getBalance(ACCOUNT);
+    await sdk.contracts.getAbi(ACCOUNT);
+    await sdk.contracts.getAbi(ACCOUNT);
+
+    expect(requests).toHaveLength(3);
+  });
+
+  it('skips calls with cache: false, errors and pending transactions', async () => {
+    const { sdk, requests } = createSDK(
+      (params) =>
+        params.get('action') === 'getabi'
+          ? notOk('Contract source code not verified')
+          : { body: { jsonrpc: '2.0', id: 1, result: { blockNumber: null } } },
+      { cache: true, retry: false }
+    );
+
+    await sdk.contracts.getAbi(ACCOUNT, { cache: false }).catch(() => null);
+    await sdk.contracts.getAbi(ACCOUNT).catch(() => null);
+    await sdk.contracts.getAbi(ACCOUNT).catch(() => null);
+    await sdk.proxy.getTransactionReceipt(TX_HASH);
+    await sdk.proxy.getTransactionReceipt(TX_HASH);
+
+    expect(requests).toHaveLength(5);
+  });
+
+  it('runs user middleware for cached responses', async () => {
+    const { sdk, requests } = createSDK(() => ok('[]'), { cache: true });
+    const seen: string[] = [];
+
+    sdk.use(async (context, next) => {
+      seen.push(context.action);
+      return next();
+    });
+    await sdk.contracts.getAbi(ACCOUNT);
+    await sdk.contracts.getAbi(ACCOUNT);
+
+    expect(requests).toHaveLength(1);
+    expect(seen).toEqual(['getabi', 'getabi']);
+  });
+
+  it('keeps the responses of other explorers apart in a shared store', async () => {
+    const store = new MemoryCacheStore();
+    const etherscan = createSDK(() => ok('["etherscan"]'), {
+      cache: { store },
+    });
+    const blockscout = createSDK(() => ok('["blockscout"]'), {
+      cache: { store },
+      provider: 'blockscout',
+    });
+    const custom = createSDK(() => ok('["custom"]'), {
+      cache: { store },
+      baseUrl: 'https://explorer.example.com/api',
+    });
+
+    await expect(etherscan.sdk.contracts.getAbi(ACCOUNT)).resolves.toBe(
+      '["etherscan"]'
+    );
+    await expect(blockscout.sdk.contracts.getAbi(ACCOUNT)).resolves.toBe(
+      '["blockscout"]'
+    );
+    await expect(custom.sdk.contracts.getAbi(ACCOUNT)).resolves.toBe(
+      '["custom"]'
+    );
+  });
+
+  it('can be cleared', async () => {
+    const { sdk, requests } = createSDK(() => ok('[]'), { cache: true });
+
+    await sdk.contracts.getAbi(ACCOUNT);
+    await sdk.clearCache();
+    await sdk.contracts.getAbi(ACCOUNT);
+
+    expect(requests).toHaveLength(2);
+  });
+});
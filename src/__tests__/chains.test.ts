@@ -0,0 +1,74 @@
+import { createSDK, ok, address } from './helpers';
+import { EtherscanValidationError } from '../types';
+import { registerChain } from '../utils/chains';
+
+registerChain({
+  name: 'custom-mainnet',
+  chainId: 777777,
+  explorerUrl: 'https://explorer.custom.example/',
+});
+
+describe('chain registry', () => {
+  it.each([
+    [{ name: '', chainId: 1 }, 'Chain name is required'],
+    [{ name: 'eth-mainnet', chainId: 1 }, 'is a built-in network'],
+    [{ name: 'bad-id', chainId: 'abc' }, 'Invalid chain id: abc'],
+    [{ name: 'negative-id', chainId: -1 }, 'Invalid chain id: -1'],
+  ])('rejects %p', (chain, message) => {
+    expect(() => registerChain(chain)).toThrow(EtherscanValidationError);
+    expect(() => registerChain(chain)).toThrow(message);
+  });
+
+  it('sends requests for a registered chain with its chain id', async () => {
+    const { sdk, params } = createSDK(() => ok('100'), {
+      network: 'custom-mainnet',
+    });
+
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(params()[0].get('chainid')).toBe('777777');
+    expect(sdk.getNetwork()).toBe('custom-mainnet');
+    expect(sdk.getChainMetadata()).toEqual({
+      name: 'custom-mainnet',
+      chainId: 777777,
+      nativeCurrency: { name: 'Ether', symbol: 'ETH', decimals: 18 },
+      explorerUrl: 'https://explorer.custom.example',
+      isTestnet: false,
+      isDeprecated: false,
+      supportsEip1559: true,
+    });
+  });
+
+  it('rejects networks that are neither built in nor registered', () => {
+    expect(() =>
+      createSDK(() => ok('100'), { network: 'unknown-chain' })
+    ).toThrow(EtherscanValidationError);
+  });
+
+  it('uses a chain id without a network name', async () => {
+    const { sdk, params } = createSDK(() => ok('100'), { chainId: 8453 });
+
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(params()[0].get('chainid')).toBe('8453');
+    expect(sdk.getNetwork()).toBe('base-mainnet');
+    expect(() => createSDK(() => ok('100'), { chainId: '0x1' })).toThrow(
+      'Invalid chain id: 0x1'
+    );
+  });
+
+  it('sends requests to a custom base URL', async () => {
+    const { sdk, requests } = createSDK(() => ok('100'), {
+      baseUrl: 'https://explorer.internal/api',
+      chainId: 31337,
+    });
+
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    const url = new URL(requests[0].url);
+    expect(`${url.origin}${url.pathname}`).toBe(
+      'https://explorer.internal/api'
+    );
+    expect(sdk.getChainId()).toBe('31337');
+  });
+});
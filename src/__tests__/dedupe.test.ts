@@ -0,0 +1,49 @@
+import { createSDK, ok, address } from './helpers';
+
+const PARAMS = { address: address(1) };
+
+describe('request de-duplication', () => {
+  it('shares one request between identical concurrent calls', async () => {
+    const { sdk, requests } = createSDK(() => ok('100'));
+
+    await expect(
+      Promise.all([
+        sdk.accounts.getBalance(PARAMS),
+        sdk.accounts.getBalance(PARAMS),
+      ])
+    ).resolves.toEqual(['100', '100']);
+    expect(requests).toHaveLength(1);
+
+    await sdk.accounts.getBalance(PARAMS);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('keeps calls with other per-call options apart', async () => {
+    const { sdk, requests } = createSDK(() => ok('100'));
+
+    await Promise.all([
+      sdk.accounts.getBalance(PARAMS),
+      sdk.accounts.getBalance(PARAMS, { priority: 'high' }),
+      sdk.accounts.getBalance(PARAMS, { timeout: 1000 }),
+      sdk.accounts.getBalance(PARAMS, { retry: false }),
+      sdk.accounts.getBalance(PARAMS, {
+        signal: new AbortController().signal,
+      }),
+    ]);
+
+    expect(requests).toHaveLength(5);
+  });
+
+  it('can be turned off', async () => {
+    const { sdk, requests } = createSDK(() => ok('100'), {
+      dedupeRequests: false,
+    });
+
+    await Promise.all([
+      sdk.accounts.getBalance(PARAMS),
+      sdk.accounts.getBalance(PARAMS),
+    ]);
+
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,79 @@
+import { createSDK, notOk, address } from './helpers';
+import {
+  DailyLimitError,
+  EtherscanAPIError,
+  EtherscanErrorCode,
+  InvalidApiKeyError,
+  QueryTimeoutError,
+  RateLimitError,
+  ResultWindowTooLargeError,
+} from '../types';
+
+describe('API errors', () => {
+  it.each([
+    ['Max rate limit reached', RateLimitError, EtherscanErrorCode.RATE_LIMIT],
+    [
+      'Max daily rate limit reached',
+      DailyLimitError,
+      EtherscanErrorCode.DAILY_LIMIT_REACHED,
+    ],
+    ['Invalid API Key', InvalidApiKeyError, EtherscanErrorCode.INVALID_API_KEY],
+    [
+      'Result window is too large, PageNo x Offset size must be less than or equal to 10000',
+      ResultWindowTooLargeError,
+      EtherscanErrorCode.RESULT_WINDOW_TOO_LARGE,
+    ],
+    [
+      'Query Timeout occured. Please select a smaller result dataset',
+      QueryTimeoutError,
+      EtherscanErrorCode.QUERY_TIMEOUT,
+    ],
+    ['Error! Invalid address format', EtherscanAPIError, 'API_ERROR'],
+  ])('maps "%s" to its error class', async (result, errorClass, code) => {
+    const { sdk } = createSDK(() => notOk(result), {
+      apiKey: 'secret-key',
+      retry: false,
+    });
+
+    const error = await sdk.accounts
+      .getBalance({ address: address(1) })
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(errorClass);
+    expect(error).toMatchObject({
+      code,
+      message: result,
+      module: 'account',
+      action: 'balance',
+      chainId: '1',
+    });
+  });
+
+  it('redacts the API key from the request URL', async () => {
+    const { sdk } = createSDK(() => notOk('Error! Invalid address format'), {
+      apiKey: 'secret-key',
+    });
+
+    const error: EtherscanAPIError = await sdk.accounts
+      .getBalance({ address: address(1) })
+      .then(
+        () => {
+          throw new Error('Expected an API error');
+        },
+        (reason: EtherscanAPIError) => reason
+      );
+
+    expect(error.url).toContain('apikey=REDACTED');
+    expect(error.url).not.toContain('secret-key');
+  });
+
+  it('accepts custom codes from subclasses', () => {
+    class QuotaError extends EtherscanAPIError {
+      constructor() {
+        super('MY_QUOTA', 'Quota used up');
+      }
+    }
+
+    expect(new QuotaError().code).toBe('MY_QUOTA');
+  });
+});
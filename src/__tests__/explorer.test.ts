@@ -0,0 +1,57 @@
+import { createSDK, ok, address } from './helpers';
+import { EtherscanValidationError } from '../types';
+import { getChainMetadata } from '../utils/chains';
+import { ExplorerLinks } from '../utils/explorer';
+
+const HASH = `0x${'ab'.repeat(32)}`;
+
+describe('explorer links', () => {
+  it('links to the pages of the network explorer', () => {
+    const { sdk } = createSDK(() => ok('100'), { network: 'avax-mainnet' });
+
+    expect(sdk.explorer.txUrl(HASH)).toBe(`https://snowscan.xyz/tx/${HASH}`);
+    expect(sdk.explorer.addressUrl(address(1))).toBe(
+      `https://snowscan.xyz/address/${address(1)}`
+    );
+    expect(sdk.explorer.tokenUrl(address(2))).toBe(
+      `https://snowscan.xyz/token/${address(2)}`
+    );
+    expect(sdk.explorer.tokenUrl(address(2), address(1))).toBe(
+      `https://snowscan.xyz/token/${address(2)}?a=${address(1)}`
+    );
+    expect(sdk.explorer.blockUrl(1000000)).toBe(
+      'https://snowscan.xyz/block/1000000'
+    );
+  });
+
+  it('throws for chains without a known explorer', () => {
+    const links = new ExplorerLinks(undefined, 'custom-mainnet');
+
+    expect(() => links.txUrl(HASH)).toThrow(EtherscanValidationError);
+    expect(() => links.txUrl(HASH)).toThrow(
+      'No explorer URL for custom-mainnet'
+    );
+  });
+});
+
+describe('chain metadata', () => {
+  it('describes built-in networks', () => {
+    expect(getChainMetadata('avax-mainnet')).toMatchObject({
+      name: 'Avalanche C-Chain',
+      chainId: 43114,
+      nativeCurrency: { name: 'Avalanche', symbol: 'AVAX', decimals: 18 },
+      isTestnet: false,
+    });
+    expect(getChainMetadata('eth-goerli')).toMatchObject({
+      isTestnet: true,
+      isDeprecated: true,
+    });
+  });
+
+  it('is exposed for the network of the SDK', () => {
+    const { sdk } = createSDK(() => ok('100'));
+
+    expect(sdk.getChainMetadata()).toEqual(getChainMetadata('eth-mainnet'));
+    expect(getChainMetadata('unknown-chain')).toBeUndefined();
+  });
+});
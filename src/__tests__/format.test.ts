@@ -0,0 +1,27 @@
+import { EtherscanValidationError } from '../types';
+import { formatUnits } from '../utils/format';
+
+describe('formatUnits', () => {
+  it.each([
+    ['1500000000000000000', 18, '1.5'],
+    ['1000000', 6, '1'],
+    ['1', 18, '0.000000000000000001'],
+    ['0', 18, '0'],
+    ['-2500000', 6, '-2.5'],
+    ['42', 0, '42'],
+  ])('formats %s with %i decimals as %s', (value, decimals, expected) => {
+    expect(formatUnits(value, decimals)).toBe(expected);
+  });
+
+  it('accepts numbers and bigints, with 18 decimals by default', () => {
+    expect(formatUnits(BigInt('2000000000000000000'))).toBe('2');
+    expect(formatUnits(1e18)).toBe('1');
+  });
+
+  it('rejects invalid amounts and decimals', () => {
+    expect(() => formatUnits('1.5')).toThrow(EtherscanValidationError);
+    expect(() => formatUnits('abc')).toThrow('Invalid amount: abc');
+    expect(() => formatUnits('1', -1)).toThrow('Invalid decimals: -1');
+    expect(() => formatUnits('1', 1.5)).toThrow(EtherscanValidationError);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Fake transport and response builders shared by the tests
+ */
+import { EtherscanSDK } from '../client';
+import {
+  EtherscanSDKOptions,
+  TransportRequest,
+  TransportResponse,
+} from '../types';
+
+export interface FakeReply {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Handler answering a request, given its query parameters
+ */
+export type FakeHandler = (
+  params: URLSearchParams,
+  request: TransportRequest
+) => FakeReply | Promise<FakeReply>;
+
+/**
+ * Successful Etherscan response
+ */
+export function ok(result: unknown): FakeReply {
+  return { body: { status: '1', message: 'OK', result } };
+}
+
+/**
+ * Failed Etherscan response, the reason is in `result`
+ */
+export function notOk(result: unknown, message: string = 'NOTOK'): FakeReply {
+  return { body: { status: '0', message, result } };
+}
+
+/**
+ * Transport answering with the handler, recording every request
+ */
+export function fakeTransport(handler: FakeHandler) {
+  const requests: TransportRequest[] = [];
+
+  const transport = async (
+    request: TransportRequest
+  ): Promise<TransportResponse> => {
+    requests.push(request);
+
+    const reply = await handler(new URL(request.url).searchParams, request);
+    const status = reply.status || 200;
+    const headers = reply.headers || {};
+
+    return {
+      ok: status >= 200 && status < 300,
+      status,
+      statusText: String(status),
+      headers: { get: (name: string) => headers[name] || null },
+      json: async () => reply.body,
+    };
+  };
+
+  return {
+    transport,
+    requests,
+    /** Query parameters of every request made so far */
+    params: () => requests.map((request) => new URL(request.url).searchParams),
+  };
+}
+
+/**
+ * SDK using the handler as transport, without rate limiting or retry delays
+ */
+export function createSDK<N extends boolean = false>(
+  handler: FakeHandler,
+  options: EtherscanSDKOptions<N> = {}
+) {
+  const fake = fakeTransport(handler);
+  const sdk = new EtherscanSDK<N>({
+    apiKey: 'test-key',
+    rateLimitEnabled: false,
+    retry: { baseDelay: 1, maxDelay: 1, jitter: false },
+    ...options,
+    transport: fake.transport,
+  });
+
+  return { sdk, ...fake };
+}
+
+/**
+ * A valid address ending with the given number
+ */
+export function address(index: number): string {
+  return `0x${index.toString(16).padStart(40, '0')}`;
+}
+
+/**
+ * Records of the requested page, within the requested block range
+ */
+export function pageOf<T extends { blockNumber: string }>(
+  records: T[],
+  params: URLSearchParams,
+  [fromParam, toParam]: [string, string] = ['startblock', 'endblock']
+): T[] {
+  const from = Number(params.get(fromParam) || 0);
+  const to = params.get(toParam) ? Number(params.get(toParam)) : Infinity;
+  const page = Number(params.get('page') || 1);
+  const offset = Number(params.get('offset') || 10);
+
+  return records
+    .filter(
+      (record) =>
+        Number(record.blockNumber) >= from && Number(record.blockNumber) <= to
+    )
+    .slice((page - 1) * offset, page * offset);
+}
@@ -0,0 +1,84 @@
+import { createSDK, ok, address, pageOf } from './helpers';
+import { collect } from '../utils/paginate';
+
+const RANGE: [string, string] = ['fromBlock', 'toBlock'];
+
+function logs(blocks: number[]) {
+  return blocks.map((block, index) => ({
+    blockNumber: `0x${block.toString(16)}`,
+    logIndex: `0x${index.toString(16)}`,
+    transactionHash: `0x${index.toString(16).padStart(64, '0')}`,
+  }));
+}
+
+describe('logs bisection', () => {
+  it('splits ranges that hit the cap until every part fits', async () => {
+    // 4 logs in every block from 0 to 999
+    const records = logs(Array.from({ length: 4000 }, (_, i) => i >> 2));
+    const { sdk, params } = createSDK((query) =>
+      ok(pageOf(records, query, RANGE))
+    );
+    const progress: number[] = [];
+
+    const result = await collect(
+      sdk.logs.iterateLogs(
+        { address: address(1), startBlock: 0, endBlock: 999 },
+        { onProgress: (state) => progress.push(state.progress) }
+      )
+    );
+
+    expect(result).toEqual(records);
+    expect(
+      params().map(
+        (query) => `${query.get('fromBlock')}-${query.get('toBlock')}`
+      )
+    ).toEqual([
+      '0-999',
+      '0-499',
+      '0-249',
+      '0-124',
+      '125-249',
+      '250-499',
+      '250-374',
+      '375-499',
+      '500-999',
+      '500-749',
+      '500-624',
+      '625-749',
+      '750-999',
+      '750-874',
+      '875-999',
+    ]);
+    expect(progress[progress.length - 1]).toBe(1);
+  });
+
+  it('pages through a block with more logs than the cap', async () => {
+    const records = logs([
+      ...Array.from({ length: 2500 }, () => 10),
+      ...Array.from({ length: 5 }, () => 11),
+    ]);
+    const { sdk } = createSDK((query) => ok(pageOf(records, query, RANGE)));
+
+    const result = await sdk.logs.getAllLogs({
+      address: address(1),
+      startBlock: 10,
+      endBlock: 11,
+    });
+
+    expect(result).toEqual(records);
+  });
+
+  it('scans up to the latest block without an end block', async () => {
+    const records = logs([1, 2, 3]);
+    const { sdk, params } = createSDK((query) =>
+      query.get('action') === 'eth_blockNumber'
+        ? { body: { jsonrpc: '2.0', id: 1, result: '0x2' } }
+        : ok(pageOf(records, query, RANGE))
+    );
+
+    const result = await sdk.logs.getAllLogs({ address: address(1) });
+
+    expect(result).toEqual(records.slice(0, 2));
+    expect(params()[1].get('toBlock')).toBe('2');
+  });
+});
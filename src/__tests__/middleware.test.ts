@@ -0,0 +1,91 @@
+import { createSDK, notOk, ok, address } from './helpers';
+import { EtherscanAPIError, Middleware } from '../types';
+
+describe('middleware', () => {
+  it('runs around the request in registration order', async () => {
+    const steps: string[] = [];
+    const { sdk } = createSDK(() => {
+      steps.push('request');
+      return ok('100');
+    });
+    const step =
+      (name: string): Middleware =>
+      async (context, next) => {
+        steps.push(`${name} before`);
+        const response = await next();
+        steps.push(`${name} after`);
+        return response;
+      };
+
+    sdk.use(step('first')).use(step('second'));
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(steps).toEqual([
+      'first before',
+      'second before',
+      'request',
+      'second after',
+      'first after',
+    ]);
+  });
+
+  it('sends the parameters changed by a middleware', async () => {
+    const { sdk, params } = createSDK(() => ok('100'));
+
+    sdk.use(async (context, next) => {
+      context.params.tag = 'pending';
+      return next();
+    });
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(params()[0].get('tag')).toBe('pending');
+  });
+
+  it('shares the request context and meta along the chain', async () => {
+    const { sdk } = createSDK(() => ok('100'));
+    const seen: unknown[] = [];
+
+    sdk
+      .use(async (context, next) => {
+        context.meta.startedBy = 'first';
+        return next();
+      })
+      .use(async (context, next) => {
+        seen.push(context.module, context.action, context.meta.startedBy);
+        return next();
+      });
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(seen).toEqual(['account', 'balance', 'first']);
+  });
+
+  it('short-circuits the request when next is not called', async () => {
+    const { sdk, requests } = createSDK(() => ok('100'));
+
+    sdk.use(async () => ({ status: '1', message: 'OK', result: '42' }));
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).resolves.toBe('42');
+    expect(requests).toHaveLength(0);
+  });
+
+  it('sees the errors of the request', async () => {
+    const { sdk } = createSDK(() => notOk('Error! Invalid address format'));
+    const errors: unknown[] = [];
+
+    sdk.use(async (context, next) => {
+      try {
+        return await next();
+      } catch (error) {
+        errors.push(error);
+        throw error;
+      }
+    });
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(EtherscanAPIError);
+    expect(errors).toEqual([expect.any(EtherscanAPIError)]);
+  });
+});
@@ -0,0 +1,48 @@
+import { createSDK, notOk, ok, address } from './helpers';
+
+describe('multi-chain', () => {
+  it('resolves every network independently', async () => {
+    const { sdk } = createSDK((params) =>
+      params.get('chainid') === '1'
+        ? ok('100')
+        : notOk('Error! Invalid address format')
+    );
+
+    const balances = await sdk
+      .onChains(['eth-mainnet', 'base-mainnet'])
+      .accounts.getBalance({ address: address(1) });
+
+    expect(balances['eth-mainnet']).toEqual({
+      status: 'fulfilled',
+      value: '100',
+    });
+    expect(balances['base-mainnet'].status).toBe('rejected');
+  });
+
+  it('can await the fan-out modules', async () => {
+    const { sdk } = createSDK(() => ok('100'));
+
+    const accounts = await sdk.onChains(['eth-mainnet']).accounts;
+
+    await expect(accounts.getBalance({ address: address(1) })).resolves.toEqual(
+      { 'eth-mainnet': { status: 'fulfilled', value: '100' } }
+    );
+  });
+
+  it('shares keys and middleware with chain clients', async () => {
+    const { sdk } = createSDK(() => ok('100'));
+    const chains: string[] = [];
+    const base = sdk.chain('base-mainnet');
+
+    sdk.use(async (context, next) => {
+      chains.push(context.chainId);
+      return next();
+    });
+    await base.accounts.getBalance({ address: address(1) });
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(chains).toEqual(['8453', '1']);
+    expect(sdk.getApiKeyStats()[0].requests).toBe(2);
+    expect(base.getApiKeyStats()).toEqual(sdk.getApiKeyStats());
+  });
+});
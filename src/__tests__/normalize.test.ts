@@ -0,0 +1,110 @@
+import { createSDK, ok, address } from './helpers';
+
+const TX_HASH = `0x${'c'.repeat(64)}`;
+
+describe('normalize', () => {
+  it('returns bigints for balances', async () => {
+    const { sdk } = createSDK(() => ok('1500000000000000000'), {
+      normalize: true,
+    });
+
+    const balance: bigint = await sdk.accounts.getBalance({
+      address: address(1),
+    });
+
+    expect(balance).toBe(BigInt('1500000000000000000'));
+  });
+
+  it('keeps raw strings without normalize', async () => {
+    const { sdk } = createSDK(() => ok('1500000000000000000'));
+
+    const balance: string = await sdk.accounts.getBalance({
+      address: address(1),
+    });
+
+    expect(balance).toBe('1500000000000000000');
+  });
+
+  it('converts transfer fields to native types', async () => {
+    const { sdk } = createSDK(
+      () =>
+        ok([
+          {
+            blockNumber: '100',
+            timeStamp: '1700000000',
+            hash: TX_HASH,
+            tokenID: '7',
+            tokenValue: '3',
+            transactionIndex: '2',
+            logIndex: '5',
+            gasUsed: '21000',
+          },
+        ]),
+      { normalize: true }
+    );
+
+    const [transfer] = await sdk.accounts.getERC1155Transfers({
+      address: address(1),
+    });
+
+    expect(transfer.tokenValue).toBe(BigInt(3));
+    expect(transfer.tokenID).toBe('7');
+    expect(transfer.blockNumber).toBe(100);
+    expect(transfer.logIndex).toBe(5);
+    expect(transfer.gasUsed).toBe(BigInt(21000));
+    expect(transfer.timeStamp).toEqual(new Date(1700000000 * 1000));
+  });
+
+  it('types iterators with the parsed records', async () => {
+    const { sdk } = createSDK(
+      () => ok([{ blockNumber: '100', timeStamp: '1700000000', value: '1' }]),
+      { normalize: true }
+    );
+
+    for await (const transaction of sdk.accounts.iterateTransactions({
+      address: address(1),
+    })) {
+      const value: bigint = transaction.value;
+      expect(value).toBe(BigInt(1));
+    }
+  });
+
+  it('keeps composite results as strings', async () => {
+    const { sdk } = createSDK(
+      (params) =>
+        params.get('action') === 'balance'
+          ? ok('2000000000000000000')
+          : params.get('action') === 'addresstokenbalance'
+          ? ok([
+              {
+                TokenAddress: address(2),
+                TokenName: 'USD Coin',
+                TokenSymbol: 'USDC',
+                TokenQuantity: '1500000',
+                TokenDivisor: '6',
+              },
+            ])
+          : ok([]),
+      { normalize: true }
+    );
+
+    const portfolio = await sdk.tokens.getPortfolio(address(1));
+
+    expect(portfolio.native).toEqual({
+      balance: '2000000000000000000',
+      formatted: '2',
+    });
+    expect(portfolio.tokens[0].balance).toBe('1500000');
+    expect(portfolio.tokens[0].formatted).toBe('1.5');
+  });
+
+  it('follows normalize on other chains', async () => {
+    const { sdk } = createSDK(() => ok('42'), { normalize: true });
+
+    const balance: bigint = await sdk
+      .chain('base-mainnet')
+      .accounts.getBalance({ address: address(1) });
+
+    expect(balance).toBe(BigInt(42));
+  });
+});
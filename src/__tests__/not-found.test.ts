@@ -0,0 +1,55 @@
+import { createSDK, notOk, address } from './helpers';
+import { NotFoundError } from '../types';
+
+const NOT_FOUND = notOk([], 'No transactions found');
+
+describe('records not found', () => {
+  it('returns empty lists for list actions', async () => {
+    const { sdk } = createSDK(() => NOT_FOUND);
+
+    await expect(
+      sdk.accounts.getTransactions({ address: address(1) })
+    ).resolves.toEqual([]);
+    await expect(
+      sdk.accounts.getTokenTransfers({ address: address(1) })
+    ).resolves.toEqual([]);
+    await expect(
+      sdk.contracts.getContractCreation([address(2)])
+    ).resolves.toEqual([]);
+  });
+
+  it('stops iterating on the first empty page', async () => {
+    const { sdk, requests } = createSDK(() => NOT_FOUND);
+    const transactions: unknown[] = [];
+
+    for await (const transaction of sdk.accounts.iterateTransactions({
+      address: address(1),
+    })) {
+      transactions.push(transaction);
+    }
+
+    expect(transactions).toEqual([]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('throws for list actions with throwOnNotFound', async () => {
+    const { sdk } = createSDK(() => NOT_FOUND, { throwOnNotFound: true });
+
+    await expect(
+      sdk.accounts.getTransactions({ address: address(1) })
+    ).rejects.toMatchObject({
+      code: 'NOT_FOUND',
+      message: 'No transactions found',
+      module: 'account',
+      action: 'txlist',
+    });
+  });
+
+  it('throws for actions returning a single record', async () => {
+    const { sdk } = createSDK(() => notOk(null, 'No token found'));
+
+    await expect(sdk.tokens.getTokenInfo(address(2))).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+});
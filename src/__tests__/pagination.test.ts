@@ -0,0 +1,72 @@
+import { createSDK, ok, address, pageOf } from './helpers';
+import { collect } from '../utils/paginate';
+
+function transactions(count: number) {
+  return Array.from({ length: count }, (_, index) => ({
+    blockNumber: String(index),
+    hash: `0x${index.toString(16).padStart(64, '0')}`,
+  }));
+}
+
+describe('pagination', () => {
+  it('fetches pages until a short page', async () => {
+    const records = transactions(2500);
+    const { sdk, params } = createSDK((query) => ok(pageOf(records, query)));
+
+    const result = await collect(
+      sdk.accounts.iterateTransactions({ address: address(1) })
+    );
+
+    expect(result).toEqual(records);
+    expect(params().map((query) => query.get('page'))).toEqual(['1', '2', '3']);
+  });
+
+  it('stops fetching when the loop breaks', async () => {
+    const records = transactions(2500);
+    const { sdk, requests } = createSDK((query) => ok(pageOf(records, query)));
+    let seen = 0;
+
+    for await (const transaction of sdk.accounts.iterateTransactions(
+      { address: address(1) },
+      { pageSize: 100 }
+    )) {
+      seen++;
+
+      if (transaction.blockNumber === '150') {
+        break;
+      }
+    }
+
+    expect(seen).toBe(151);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('stops at the 10,000 result window', async () => {
+    const records = transactions(12000);
+    const { sdk, requests } = createSDK((query) => ok(pageOf(records, query)));
+
+    const result = await collect(
+      sdk.accounts.iterateTransactions(
+        { address: address(1) },
+        { pageSize: 5000 }
+      )
+    );
+
+    expect(result).toHaveLength(10000);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('starts at the requested page', async () => {
+    const records = transactions(250);
+    const { sdk } = createSDK((query) => ok(pageOf(records, query)));
+
+    const result = await collect(
+      sdk.accounts.iterateTransactions(
+        { address: address(1), page: 2 },
+        { pageSize: 100 }
+      )
+    );
+
+    expect(result).toEqual(records.slice(100));
+  });
+});
@@ -0,0 +1,84 @@
+import { createSDK, ok, address } from './helpers';
+import { registerChain } from '../utils/chains';
+
+const HOLDINGS: Record<string, unknown> = {
+  balance: '2500000',
+  addresstokenbalance: [
+    {
+      TokenAddress: address(2),
+      TokenName: 'USD Coin',
+      TokenSymbol: 'USDC',
+      TokenQuantity: '1500000',
+      TokenDivisor: '6',
+    },
+  ],
+  addresstokennftbalance: [
+    {
+      TokenAddress: address(3),
+      TokenName: 'Items',
+      TokenSymbol: 'ITM',
+      TokenQuantity: '3',
+    },
+  ],
+};
+
+describe('getPortfolio', () => {
+  it('formats the native balance, tokens and collections', async () => {
+    const { sdk } = createSDK((params) =>
+      ok(HOLDINGS[params.get('action') as string])
+    );
+
+    await expect(sdk.tokens.getPortfolio(address(1))).resolves.toEqual({
+      address: address(1),
+      native: { balance: '2500000', formatted: '0.0000000000025' },
+      tokens: [
+        {
+          contractAddress: address(2),
+          name: 'USD Coin',
+          symbol: 'USDC',
+          decimals: 6,
+          balance: '1500000',
+          formatted: '1.5',
+        },
+      ],
+      nfts: [
+        {
+          contractAddress: address(3),
+          name: 'Items',
+          symbol: 'ITM',
+          quantity: 3,
+        },
+      ],
+    });
+  });
+
+  it('uses the decimals of the native currency of the chain', async () => {
+    registerChain({
+      name: 'six-decimals-mainnet',
+      chainId: 990001,
+      nativeCurrency: { name: 'Six', symbol: 'SIX', decimals: 6 },
+    });
+    const { sdk } = createSDK(
+      (params) => ok(HOLDINGS[params.get('action') as string]),
+      { network: 'six-decimals-mainnet' }
+    );
+
+    const portfolio = await sdk.tokens.getPortfolio(address(1));
+
+    expect(portfolio.native.formatted).toBe('2.5');
+  });
+
+  it('pages the token and NFT lists with the page size', async () => {
+    const { sdk, params } = createSDK((query) =>
+      ok(HOLDINGS[query.get('action') as string])
+    );
+
+    await sdk.tokens.getPortfolio(address(1), { pageSize: 50 });
+
+    expect(
+      params()
+        .filter((query) => query.get('action') !== 'balance')
+        .map((query) => query.get('offset'))
+    ).toEqual(['50', '50']);
+  });
+});
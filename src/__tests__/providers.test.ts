@@ -0,0 +1,133 @@
+import { createSDK, notOk, ok, address } from './helpers';
+import { EtherscanNetworkError, NotFoundError } from '../types';
+
+const BLOCKSCOUT = { provider: 'blockscout', network: 'eth-mainnet' } as const;
+
+describe('Blockscout', () => {
+  it('reads balances at a block from the JSON-RPC action', async () => {
+    const { sdk, params } = createSDK(
+      () => ({ body: { jsonrpc: '2.0', id: 0, result: '0x0de0b6b3a7640000' } }),
+      BLOCKSCOUT
+    );
+
+    await expect(
+      sdk.accounts.getBalanceHistory({ address: address(1), blockno: 100 })
+    ).resolves.toBe('1000000000000000000');
+    expect(params()[0].get('action')).toBe('eth_get_balance');
+    expect(params()[0].get('block')).toBe('100');
+  });
+
+  it('reads ERC-20 balances from the token list', async () => {
+    const { sdk, params } = createSDK(
+      () =>
+        ok([
+          {
+            balance: '1500000',
+            contractAddress: address(2),
+            decimals: '6',
+            name: 'USD Coin',
+            symbol: 'USDC',
+            type: 'ERC-20',
+          },
+          {
+            balance: '1',
+            contractAddress: address(3),
+            decimals: '',
+            name: 'Items',
+            symbol: 'ITM',
+            type: 'ERC-721',
+          },
+        ]),
+      BLOCKSCOUT
+    );
+
+    await expect(
+      sdk.tokens.getAddressTokenBalances({ address: address(1) })
+    ).resolves.toEqual([
+      {
+        TokenAddress: address(2),
+        TokenName: 'USD Coin',
+        TokenSymbol: 'USDC',
+        TokenQuantity: '1500000',
+        TokenDivisor: '6',
+      },
+    ]);
+    expect(params()[0].get('action')).toBe('tokenlist');
+  });
+
+  it('reads token info as an Etherscan record', async () => {
+    const { sdk, params } = createSDK(
+      () =>
+        ok({
+          cataloged: true,
+          contractAddress: address(2),
+          decimals: '6',
+          name: 'USD Coin',
+          symbol: 'USDC',
+          totalSupply: '1000000',
+          type: 'ERC-20',
+        }),
+      BLOCKSCOUT
+    );
+
+    await expect(sdk.tokens.getTokenInfo(address(2))).resolves.toEqual({
+      contractAddress: address(2),
+      tokenName: 'USD Coin',
+      symbol: 'USDC',
+      divisor: '6',
+      tokenType: 'ERC20',
+      totalSupply: '1000000',
+    });
+    expect(params()[0].get('action')).toBe('getToken');
+  });
+
+  it('reads block numbers by timestamp', async () => {
+    const { sdk } = createSDK(() => ok({ blockNumber: '2165403' }), BLOCKSCOUT);
+
+    await expect(
+      sdk.blocks.getBlockNumberByTimestamp(1700000000)
+    ).resolves.toBe('2165403');
+  });
+
+  it('returns empty lists for records not found with a 4xx status', async () => {
+    const { sdk } = createSDK(
+      () => ({ status: 404, body: notOk([], 'No transactions found').body }),
+      BLOCKSCOUT
+    );
+
+    await expect(
+      sdk.accounts.getTransactions({ address: address(1) })
+    ).resolves.toEqual([]);
+  });
+
+  it('throws the API error sent with a 4xx status', async () => {
+    const { sdk } = createSDK(
+      (params) =>
+        params.get('action') === 'txlist'
+          ? {
+              status: 400,
+              body: notOk('Unknown action', 'Unknown action').body,
+            }
+          : { status: 404, body: notOk(null, 'No token found').body },
+      { ...BLOCKSCOUT, throwOnNotFound: true }
+    );
+
+    await expect(
+      sdk.accounts.getTransactions({ address: address(1) })
+    ).rejects.toMatchObject({ code: 'UNSUPPORTED_ENDPOINT' });
+    await expect(sdk.tokens.getTokenInfo(address(2))).rejects.toBeInstanceOf(
+      NotFoundError
+    );
+  });
+
+  it('keeps Etherscan 4xx responses as network errors', async () => {
+    const { sdk } = createSDK(() => ({
+      status: 404,
+      body: notOk([], 'No transactions found').body,
+    }));
+
+    await expect(
+      sdk.accounts.getTransactions({ address: address(1) })
+    ).rejects.toEqual(expect.any(EtherscanNetworkError));
+  });
+});
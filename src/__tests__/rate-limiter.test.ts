@@ -0,0 +1,120 @@
+import { RateLimiter } from '../utils/rate-limiter';
+import { DailyLimitError, EtherscanErrorCode } from '../types';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('starts a burst of requests, then one per token', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+    const started: number[] = [];
+
+    const results = [1, 2, 3, 4].map((index) =>
+      limiter.schedule(async () => {
+        started.push(index);
+        return index;
+      })
+    );
+
+    expect(started).toEqual([1, 2]);
+    expect(limiter.getState().queueDepth).toBe(2);
+
+    jest.advanceTimersByTime(500);
+    expect(started).toEqual([1, 2, 3]);
+
+    jest.advanceTimersByTime(500);
+    await expect(Promise.all(results)).resolves.toEqual([1, 2, 3, 4]);
+  });
+
+  it('starts higher priority requests first', () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    const started: string[] = [];
+    const run = (name: string) => async () => {
+      started.push(name);
+    };
+
+    limiter.schedule(run('first'));
+    limiter.schedule(run('low'), { priority: 'low' });
+    limiter.schedule(run('normal'));
+    limiter.schedule(run('high'), { priority: 'high' });
+    jest.advanceTimersByTime(3000);
+
+    expect(started).toEqual(['first', 'high', 'normal', 'low']);
+  });
+
+  it('rejects requests over the daily quota', async () => {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 5,
+      requestsPerDay: 2,
+    });
+    const request = async () => 'ok';
+
+    await limiter.schedule(request);
+    await limiter.schedule(request);
+
+    await expect(limiter.schedule(request)).rejects.toBeInstanceOf(
+      DailyLimitError
+    );
+    expect(limiter.getState().dailyRemaining).toBe(0);
+  });
+
+  it('rejects requests when the queue is full', async () => {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 1,
+      maxQueueLength: 1,
+    });
+    const request = async () => 'ok';
+
+    limiter.schedule(request);
+    limiter.schedule(request);
+
+    await expect(limiter.schedule(request)).rejects.toMatchObject({
+      code: EtherscanErrorCode.QUEUE_FULL,
+    });
+  });
+
+  it('drops aborted requests from the queue', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    const controller = new AbortController();
+    const request = jest.fn(async () => 'ok');
+
+    limiter.schedule(request);
+    const aborted = limiter.schedule(request, { signal: controller.signal });
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow('aborted');
+    jest.advanceTimersByTime(1000);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(limiter.getState().queueDepth).toBe(0);
+  });
+
+  it('keeps the daily usage and the queue when the limits change', async () => {
+    const limiter = new RateLimiter({
+      requestsPerSecond: 1,
+      requestsPerDay: 3,
+    });
+    const started: number[] = [];
+    const run = (index: number) => async () => {
+      started.push(index);
+    };
+
+    limiter.schedule(run(1));
+    limiter.schedule(run(2));
+    limiter.schedule(run(3));
+    limiter.setOptions({ requestsPerSecond: 10, requestsPerDay: 3 });
+
+    jest.advanceTimersByTime(100);
+    expect(started).toEqual([1, 2]);
+    jest.advanceTimersByTime(100);
+    expect(started).toEqual([1, 2, 3]);
+    expect(limiter.getState().dailyUsage).toBe(3);
+    await expect(limiter.schedule(run(4))).rejects.toBeInstanceOf(
+      DailyLimitError
+    );
+  });
+});
@@ -0,0 +1,76 @@
+import { createSDK, FakeHandler, ok, address } from './helpers';
+import { EtherscanNetworkError } from '../types';
+
+/**
+ * Handler that only settles when the request is aborted
+ */
+const hang: FakeHandler = (params, request) =>
+  new Promise((resolve, reject) => {
+    const abort = () =>
+      reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+
+    if (request.signal.aborted) {
+      abort();
+    }
+    request.signal.addEventListener('abort', abort);
+  });
+
+describe('per-call request options', () => {
+  it('times out a call after its own timeout', async () => {
+    const { sdk } = createSDK(hang, { timeout: 60000 });
+
+    await expect(
+      sdk.accounts.getBalance(
+        { address: address(1) },
+        { timeout: 20, retry: false }
+      )
+    ).rejects.toThrow('Request timed out after 20ms');
+  });
+
+  it('aborts a call in flight', async () => {
+    const controller = new AbortController();
+    const { sdk, requests } = createSDK(hang);
+
+    const balance = sdk.accounts.getBalance(
+      { address: address(1) },
+      { signal: controller.signal }
+    );
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(balance).rejects.toEqual(
+      new EtherscanNetworkError('Request aborted')
+    );
+    expect(requests).toHaveLength(1);
+  });
+
+  it('starts higher priority calls first when rate limited', async () => {
+    jest.useFakeTimers();
+
+    try {
+      const { sdk, params } = createSDK(() => ok('100'), {
+        rateLimitEnabled: true,
+        maxRequestsPerSecond: 1,
+      });
+      const balance = (index: number, priority?: 'high' | 'low') =>
+        sdk.accounts.getBalance({ address: address(index) }, { priority });
+
+      const balances = [
+        balance(1),
+        balance(2, 'low'),
+        balance(3),
+        balance(4, 'high'),
+      ];
+      await jest.advanceTimersByTimeAsync(3000);
+      await Promise.all(balances);
+
+      expect(params().map((query) => query.get('address'))).toEqual([
+        address(1),
+        address(4),
+        address(3),
+        address(2),
+      ]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,136 @@
+import { createSDK, notOk, ok, address } from './helpers';
+import {
+  EtherscanNetworkError,
+  InvalidApiKeyError,
+  QueryTimeoutError,
+} from '../types';
+import { getRetryDelay, resolveRetryOptions } from '../utils/retry';
+
+describe('retry', () => {
+  it('retries network errors until a request succeeds', async () => {
+    let calls = 0;
+    const { sdk } = createSDK(() =>
+      ++calls < 3 ? { status: 503 } : ok('100')
+    );
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).resolves.toBe('100');
+    expect(calls).toBe(3);
+  });
+
+  it('gives up after maxAttempts', async () => {
+    const { sdk, requests } = createSDK(() => ({ status: 503 }), {
+      retry: { maxAttempts: 2, baseDelay: 1, jitter: false },
+    });
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(EtherscanNetworkError);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('stops waiting for the next attempt when the call is aborted', async () => {
+    const controller = new AbortController();
+    const { sdk, requests } = createSDK(
+      () => {
+        setTimeout(() => controller.abort(), 10);
+        return { status: 503 };
+      },
+      { retry: { maxAttempts: 2, baseDelay: 60000, jitter: false } }
+    );
+
+    await expect(
+      sdk.accounts.getBalance(
+        { address: address(1) },
+        { signal: controller.signal }
+      )
+    ).rejects.toThrow('Request aborted');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('does not retry client errors', async () => {
+    const { sdk, requests } = createSDK(() => ({ status: 404 }));
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(EtherscanNetworkError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('retries rate limit responses', async () => {
+    let calls = 0;
+    const { sdk } = createSDK(() =>
+      ++calls === 1 ? notOk('Max rate limit reached') : ok('100')
+    );
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).resolves.toBe('100');
+  });
+
+  it('does not retry API errors that are not listed in retryOn', async () => {
+    const { sdk, requests } = createSDK(() =>
+      notOk('Query Timeout occured. Please select a smaller result dataset')
+    );
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(QueryTimeoutError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('retries API errors listed in retryOn', async () => {
+    let calls = 0;
+    const { sdk } = createSDK(
+      () =>
+        ++calls === 1
+          ? notOk(
+              'Query Timeout occured. Please select a smaller result dataset'
+            )
+          : ok('100'),
+      {
+        retry: {
+          baseDelay: 1,
+          jitter: false,
+          retryOn: [EtherscanNetworkError, QueryTimeoutError],
+        },
+      }
+    );
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).resolves.toBe('100');
+    expect(calls).toBe(2);
+  });
+
+  it('never retries invalid API keys, even when listed in retryOn', async () => {
+    const { sdk, requests } = createSDK(() => notOk('Invalid API Key'), {
+      retry: { baseDelay: 1, retryOn: [InvalidApiKeyError] },
+    });
+
+    await expect(
+      sdk.accounts.getBalance({ address: address(1) })
+    ).rejects.toBeInstanceOf(InvalidApiKeyError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it('backs off exponentially up to maxDelay', () => {
+    const options = resolveRetryOptions({
+      baseDelay: 100,
+      maxDelay: 300,
+      jitter: false,
+    });
+
+    expect(
+      [1, 2, 3].map((attempt) => getRetryDelay(attempt, undefined, options))
+    ).toEqual([100, 200, 300]);
+  });
+
+  it('waits for Retry-After when the server sends it', () => {
+    const options = resolveRetryOptions({ maxDelay: 10000 });
+    const error = new EtherscanNetworkError('Too many requests', 429, 2000);
+
+    expect(getRetryDelay(1, error, options)).toBe(2000);
+  });
+});
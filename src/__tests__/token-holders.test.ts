@@ -0,0 +1,82 @@
+import { createSDK, ok, address } from './helpers';
+import { ResultWindowTooLargeError } from '../types';
+
+const TOKEN = address(99);
+
+function holder(index: number, quantity: string) {
+  return { TokenHolderAddress: address(index), TokenHolderQuantity: quantity };
+}
+
+describe('token holders', () => {
+  it('computes shares and concentration from the holder list', async () => {
+    const { sdk } = createSDK((params) =>
+      params.get('action') === 'tokensupply'
+        ? ok('1000')
+        : ok([holder(1, '100'), holder(2, '600'), holder(3, '300')])
+    );
+
+    const top = await sdk.tokens.getTopHolders(TOKEN, 2);
+
+    expect(top.holders).toEqual([
+      { address: address(2), value: '600', share: 0.6 },
+      { address: address(3), value: '300', share: 0.3 },
+    ]);
+    expect(top.holderCount).toBe(3);
+    expect(top.topShare).toBeCloseTo(0.9);
+    expect(top.truncated).toBe(false);
+  });
+
+  it('works with normalized responses', async () => {
+    const { sdk } = createSDK(
+      (params) =>
+        params.get('action') === 'tokensupply'
+          ? ok('1000')
+          : ok([holder(1, '250')]),
+      { normalize: true }
+    );
+
+    await expect(sdk.tokens.getAllTokenHolders(TOKEN)).resolves.toEqual([
+      { address: address(1), value: '250', share: 0.25 },
+    ]);
+  });
+
+  it('reads Blockscout holder lists', async () => {
+    const { sdk, params } = createSDK(
+      (query) =>
+        query.get('action') === 'tokensupply'
+          ? ok('1000')
+          : ok([{ address: address(1), value: '500' }]),
+      { provider: 'blockscout', network: 'eth-mainnet' }
+    );
+
+    await expect(sdk.tokens.getAllTokenHolders(TOKEN)).resolves.toEqual([
+      { address: address(1), value: '500', share: 0.5 },
+    ]);
+    expect(params().map((query) => query.get('action'))).toContain(
+      'getTokenHolders'
+    );
+  });
+
+  it('flags holder lists cut at the result window', async () => {
+    const { sdk } = createSDK((params) => {
+      if (params.get('action') === 'tokensupply') {
+        return ok('1000000');
+      }
+
+      const offset = Number(params.get('offset'));
+      return ok(
+        Array.from({ length: offset }, (_, index) => holder(index + 1, '1'))
+      );
+    });
+
+    const top = await sdk.tokens.getTopHolders(TOKEN, 10, {
+      pageSize: 5000,
+    });
+
+    expect(top.holderCount).toBe(10000);
+    expect(top.truncated).toBe(true);
+    await expect(
+      sdk.tokens.getAllTokenHolders(TOKEN, { pageSize: 5000 })
+    ).rejects.toBeInstanceOf(ResultWindowTooLargeError);
+  });
+});
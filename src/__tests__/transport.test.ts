@@ -0,0 +1,72 @@
+import { createSDK, ok, address } from './helpers';
+import { EtherscanSDK } from '../client';
+
+describe('transport', () => {
+  it('hands the fully-built GET request to the transport', async () => {
+    const { sdk, requests } = createSDK(() => ok('100'));
+
+    await sdk.accounts.getBalance({ address: address(1) });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].method).toBe('GET');
+    expect(requests[0].body).toBeUndefined();
+    expect(requests[0].signal).toBeInstanceOf(AbortSignal);
+
+    const url = new URL(requests[0].url);
+    expect(`${url.origin}${url.pathname}`).toBe(
+      'https://api.etherscan.io/v2/api'
+    );
+    expect(url.searchParams.get('chainid')).toBe('1');
+    expect(url.searchParams.get('module')).toBe('account');
+    expect(url.searchParams.get('action')).toBe('balance');
+    expect(url.searchParams.get('address')).toBe(address(1));
+    expect(url.searchParams.get('apikey')).toBe('test-key');
+  });
+
+  it('sends POST requests with a JSON body carrying the API key', async () => {
+    const { sdk, requests } = createSDK(() => ok('guid-123'));
+
+    await expect(
+      sdk.contracts.verifyContract({
+        contractAddress: address(1),
+        sourceCode: 'contract A {}',
+        contractName: 'A',
+        compilerVersion: 'v0.8.0+commit.c7dfd78e',
+        optimizationUsed: true,
+      })
+    ).resolves.toBe('guid-123');
+
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].headers['Content-Type']).toBe('application/json');
+    expect(JSON.parse(requests[0].body!)).toMatchObject({
+      module: 'contract',
+      action: 'verifysourcecode',
+      contractaddress: address(1),
+      apikey: 'test-key',
+    });
+  });
+
+  it('uses the global fetch without a transport', async () => {
+    const fetch = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(
+        new Response(JSON.stringify(ok('100').body), { status: 200 })
+      );
+    const sdk = new EtherscanSDK({
+      apiKey: 'test-key',
+      rateLimitEnabled: false,
+    });
+
+    try {
+      await expect(
+        sdk.accounts.getBalance({ address: address(1) })
+      ).resolves.toBe('100');
+      expect(fetch).toHaveBeenCalledWith(
+        expect.stringContaining('action=balance'),
+        expect.objectContaining({ method: 'GET' })
+      );
+    } finally {
+      fetch.mockRestore();
+    }
+  });
+});
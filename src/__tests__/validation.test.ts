@@ -0,0 +1,77 @@
+import { createSDK, ok, address } from './helpers';
+import { ResponseShapeError } from '../types';
+
+const TX_HASH = `0x${'b'.repeat(64)}`;
+
+describe('response validation', () => {
+  it('accepts token info as a list with a single record', async () => {
+    const info = {
+      contractAddress: address(1),
+      tokenName: 'Tether USD',
+      symbol: 'USDT',
+      divisor: '6',
+      tokenType: 'ERC20',
+      totalSupply: '1000000',
+      website: 'https://tether.to/',
+    };
+    const { sdk } = createSDK(() => ok([info]), { validateResponses: true });
+
+    await expect(sdk.tokens.getTokenInfo(address(1))).resolves.toEqual(info);
+  });
+
+  it('accepts transaction execution status', async () => {
+    const { sdk } = createSDK(
+      () => ok({ isError: '1', errDescription: 'Bad jump destination' }),
+      { validateResponses: true }
+    );
+
+    await expect(
+      sdk.transactions.getStatus({ txhash: TX_HASH })
+    ).resolves.toEqual({
+      isError: '1',
+      errDescription: 'Bad jump destination',
+    });
+  });
+
+  it('accepts ERC1155 transfers with a token value and no decimals', async () => {
+    const transfer = {
+      blockNumber: '100',
+      timeStamp: '1700000000',
+      hash: TX_HASH,
+      nonce: '1',
+      blockHash: TX_HASH,
+      from: address(1),
+      contractAddress: address(2),
+      to: address(3),
+      tokenID: '7',
+      tokenValue: '3',
+      tokenName: 'Items',
+      tokenSymbol: 'ITM',
+      transactionIndex: '0',
+      gas: '21000',
+      gasPrice: '1',
+      gasUsed: '21000',
+      cumulativeGasUsed: '21000',
+      input: 'deprecated',
+      confirmations: '10',
+    };
+    const { sdk } = createSDK(() => ok([transfer]), {
+      validateResponses: true,
+    });
+
+    await expect(
+      sdk.accounts.getERC1155Transfers({ address: address(1) })
+    ).resolves.toEqual([transfer]);
+  });
+
+  it('rejects holder lists in another shape', async () => {
+    const { sdk } = createSDK(
+      () => ok([{ address: address(1), value: '100' }]),
+      { validateResponses: true }
+    );
+
+    await expect(sdk.tokens.getTokenHolders(address(2))).rejects.toBeInstanceOf(
+      ResponseShapeError
+    );
+  });
+});
@@ -4,7 +4,42 @@
  */
 
 import { BaseModule } from './base';
-import { Accounts, APIResponse } from '../types';
+import { BlocksModule } from './blocks';
+import { HttpClient } from '../utils/http-client';
+import {
+  Accounts,
+  APIResponse,
+  BatchError,
+  BatchFailure,
+  BlockRangeRequest,
+  IterateOptions,
+  RequestOptions,
+  TransactionType,
+} from '../types';
+import { MAX_BALANCE_MULTI_ADDRESSES } from '../constants';
+import { collect } from '../utils/paginate';
+
+/**
+ * Order of the transfers of a single transaction in an activity timeline
+ */
+const ACTIVITY_ORDER: Record<TransactionType, number> = {
+  normal: 0,
+  internal: 1,
+  token: 2,
+  erc721: 3,
+  erc1155: 4,
+};
+
+/**
+ * Position of a transfer log in its block, transactions and transfers without
+ * a log index come first
+ */
+function getLogIndex(entry: Accounts.ActivityEntry): number {
+  const logIndex: unknown =
+    'logIndex' in entry.data ? entry.data.logIndex : undefined;
+
+  return logIndex === undefined || logIndex === '' ? -1 : Number(logIndex);
+}
 
 /**
  * Accounts module for the Etherscan API
@@ -19,11 +54,26 @@ import { Accounts, APIResponse } from '../types';
  * ```
  */
 export class _AccountsModule extends BaseModule {
+  private readonly blocks: BlocksModule;
+
+  /**
+   * @param {HttpClient} httpClient - Client the requests are sent with
+   * @param {BlocksModule} blocks - Blocks module of the client, used to resolve dates to blocks
+   */
+  constructor(
+    httpClient: HttpClient,
+    blocks: BlocksModule = new BlocksModule(httpClient)
+  ) {
+    super(httpClient);
+    this.blocks = blocks;
+  }
+
   /**
    * Get Ether balance for a single address
    * @param {Object} params - Balance request parameters
    * @param {string} params.address - Ethereum address to check balance for
    * @param {string} [params.tag='latest'] - Block tag (latest, earliest, pending, or block number)
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Account balance in Wei
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -35,7 +85,10 @@ export class _AccountsModule extends BaseModule {
    * console.log(balance); // '1000000000000000000' (1 ETH)
    * ```
    */
-  public async getBalance(params: Accounts.BalanceRequest): Promise<string> {
+  public async getBalance(
+    params: Accounts.BalanceRequest,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate required parameters
     this.validateRequired(params, ['address']);
     this.validateAddress(params.address);
@@ -47,18 +100,23 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
-   * Get Ether balance for multiple addresses in a single call
+   * Get Ether balance for multiple addresses. Lists longer than the 20 addresses
+   * a single call accepts are split into chunks of 20, fetched concurrently
+   * through the rate limiter and merged back in input order.
    * @param {Object} params - Balance multi request parameters
    * @param {string[]} params.addresses - Array of Ethereum addresses to check balances for
    * @param {string} [params.tag='latest'] - Block tag (latest, earliest, pending, or block number)
-   * @returns {Promise<Array<Accounts.BalanceResponse>>} Array of account balances in Wei
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Array<Accounts.BalanceResponse>>} Array of account balances in Wei, in the order of `addresses`
    * @throws {EtherscanValidationError} if addresses array is empty or contains invalid addresses
+   * @throws {BatchError} if some chunks fail, with the balances of the others in `results` and the failed addresses in `failures`
    * @example
    * ```ts
    * const balances = await accountsModule.getBalanceMulti({
@@ -70,7 +128,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getBalanceMulti(
-    params: Accounts.BalanceMultiRequest
+    params: Accounts.BalanceMultiRequest,
+    options?: RequestOptions
   ): Promise<Array<Accounts.BalanceResponse>> {
     // Validate required parameters
     this.validateRequired(params, ['addresses']);
@@ -82,17 +141,162 @@ export class _AccountsModule extends BaseModule {
     // Validate each address
     params.addresses.forEach((address) => this.validateAddress(address));
 
+    const chunks: string[][] = [];
+
+    for (
+      let index = 0;
+      index < params.addresses.length;
+      index += MAX_BALANCE_MULTI_ADDRESSES
+    ) {
+      chunks.push(
+        params.addresses.slice(index, index + MAX_BALANCE_MULTI_ADDRESSES)
+      );
+    }
+
+    // Errors of a single call are thrown as they are
+    if (chunks.length === 1) {
+      return this.fetchBalanceMulti(chunks[0], params.tag, options);
+    }
+
+    const settled = await Promise.all(
+      chunks.map((chunk) =>
+        this.fetchBalanceMulti(chunk, params.tag, options).then(
+          (balances) => ({ chunk, balances, error: undefined }),
+          (error: unknown) => ({ chunk, balances: undefined, error })
+        )
+      )
+    );
+
+    const results: Array<Accounts.BalanceResponse> = [];
+    const failures: BatchFailure[] = [];
+
+    for (const { chunk, balances, error } of settled) {
+      if (balances) {
+        results.push(...balances);
+      } else {
+        failures.push({ inputs: chunk, error });
+      }
+    }
+
+    if (failures.length === chunks.length) {
+      // Nothing to keep, surface the underlying error
+      throw failures[0].error;
+    }
+
+    if (failures.length > 0) {
+      throw new BatchError(
+        `${failures.length} of ${chunks.length} balancemulti requests failed`,
+        results,
+        failures,
+        { module: 'account', action: 'balancemulti' }
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Get the balances of at most 20 addresses in a single call
+   */
+  private async fetchBalanceMulti(
+    addresses: string[],
+    tag: string | undefined,
+    options?: RequestOptions
+  ): Promise<Array<Accounts.BalanceResponse>> {
     const apiParams = this.createParams('account', 'balancemulti', {
-      address: params.addresses.join(','),
-      tag: params.tag || 'latest',
+      address: addresses.join(','),
+      tag: tag || 'latest',
     });
 
     const response = await this.httpClient.get<
       APIResponse<Array<Accounts.BalanceResponse>>
-    >('', apiParams);
+    >('', apiParams, options);
+    return response.result;
+  }
+
+  /**
+   * Get Ether balance for a single address at a past block
+   * @param {Object} params - Balance history request parameters
+   * @param {string} params.address - Ethereum address to check balance for
+   * @param {number} params.blockno - Block number to read the balance at
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<string>} Account balance in Wei at the given block
+   * @throws {EtherscanValidationError} if address or block number is invalid
+   * @example
+   * ```ts
+   * const balance = await accountsModule.getBalanceHistory({
+   *   address: '0x123...abc',
+   *   blockno: 8000000
+   * });
+   * console.log(balance); // '1000000000000000000' (1 ETH)
+   * ```
+   */
+  public async getBalanceHistory(
+    params: Accounts.BalanceHistoryRequest,
+    options?: RequestOptions
+  ): Promise<string> {
+    // Validate required parameters
+    this.validateRequired(params, ['address', 'blockno']);
+    this.validateAddress(params.address);
+    this.validateBlockNumber(params.blockno);
+
+    const apiParams = this.createParams('account', 'balancehistory', {
+      address: params.address,
+      blockno: params.blockno,
+    });
+
+    const response = await this.httpClient.get<APIResponse<string>>(
+      '',
+      apiParams,
+      options
+    );
     return response.result;
   }
 
+  /**
+   * Get Ether balance for a single address at a point in time. The block is
+   * resolved with `blocks.getBlockNumberByTimestamp` before the balance is read.
+   * @param {Object} params - Balance request parameters
+   * @param {string} params.address - Ethereum address to check balance for
+   * @param {Date} params.date - Point in time to read the balance at
+   * @param {'before'|'after'} [params.closest='before'] - Use the last block before the date or the first block after it
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Accounts.BalanceAtResponse>} The resolved block number and the balance in Wei at that block
+   * @throws {EtherscanValidationError} if address or date is invalid
+   * @example
+   * ```ts
+   * const { blockNumber, balance } = await accountsModule.getBalanceAt({
+   *   address: '0x123...abc',
+   *   date: new Date('2024-01-31T23:59:59Z')
+   * });
+   * console.log(blockNumber); // 19127542
+   * console.log(balance); // '1000000000000000000'
+   * ```
+   */
+  public async getBalanceAt(
+    params: Accounts.BalanceAtRequest,
+    options?: RequestOptions
+  ): Promise<Accounts.BalanceAtResponse> {
+    // Validate required parameters
+    this.validateRequired(params, ['address', 'date']);
+    this.validateAddress(params.address);
+    this.validateDate(params.date);
+
+    const blockNumber = Number(
+      await this.blocks.getBlockNumberByTimestamp(
+        Math.floor(params.date.getTime() / 1000),
+        params.closest,
+        { ...options, normalize: false }
+      )
+    );
+
+    const balance = await this.getBalanceHistory(
+      { address: params.address, blockno: blockNumber },
+      options
+    );
+    return { blockNumber, balance };
+  }
+
   /**
    * Get a list of 'normal' transactions by address
    * @param {Object} params - Transactions request parameters
@@ -102,6 +306,7 @@ export class _AccountsModule extends BaseModule {
    * @param {number} [params.page=1] - Page number for pagination
    * @param {number} [params.offset=10] - Number of records per page
    * @param {'asc'|'desc'} [params.sort='desc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.TransactionsResponse>} List of transactions
    * @throws {EtherscanValidationError} if address or block numbers are invalid
    * @example
@@ -119,7 +324,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getTransactions(
-    params: Accounts.TransactionsRequest
+    params: Accounts.TransactionsRequest,
+    options?: RequestOptions
   ): Promise<Accounts.TransactionsResponse> {
     // Validate required parameters
     this.validateRequired(params, ['address']);
@@ -145,10 +351,61 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Accounts.TransactionsResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every 'normal' transaction of an address, fetching pages as they are consumed
+   * @param {Accounts.TransactionsRequest} params - Same parameters as `getTransactions`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.TransactionsResponse[number]>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const tx of accountsModule.iterateTransactions({ address: '0x123...abc' })) {
+   *   console.log(tx.hash); // '0x789...xyz'
+   * }
+   * ```
+   */
+  public iterateTransactions(
+    params: Accounts.TransactionsRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.TransactionsResponse[number]> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getTransactions({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Iterate over every 'normal' transaction of an address in block order, without the 10,000 result limit of a single query.
+   * The block range is walked forward from `startBlock`, starting a new query whenever a window fills up.
+   * @param {Accounts.TransactionsRequest} params - Same parameters as `getTransactions`, `page` and `sort` are ignored
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.TransactionsResponse[number]>} Every record from `startBlock` to `endBlock`, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const tx of accountsModule.iterateAllTransactions({ address: '0x123...abc' })) {
+   *   console.log(tx.blockNumber, tx.hash);
+   * }
+   * ```
+   */
+  public iterateAllTransactions(
+    params: Accounts.TransactionsRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.TransactionsResponse[number]> {
+    return this.iterateBlockRange(
+      params,
+      options,
+      (startBlock, endBlock, page, offset, requestOptions) =>
+        this.getTransactions(
+          { ...params, startBlock, endBlock, page, offset, sort: 'asc' },
+          requestOptions
+        )
+    );
+  }
+
   /**
    * Get a list of 'internal' transactions by address
    * @param {Object} params - Internal transactions request parameters
@@ -158,6 +415,7 @@ export class _AccountsModule extends BaseModule {
    * @param {number} [params.page=1] - Page number for pagination
    * @param {number} [params.offset=10] - Number of records per page
    * @param {'asc'|'desc'} [params.sort='desc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.InternalTransactionsResponse>} List of internal transactions
    * @throws {EtherscanValidationError} if address or block numbers are invalid
    * @example
@@ -175,7 +433,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getInternalTransactions(
-    params: Accounts.InternalTransactionsRequest
+    params: Accounts.InternalTransactionsRequest,
+    options?: RequestOptions
   ): Promise<Accounts.InternalTransactionsResponse> {
     // Validate required parameters
     this.validateRequired(params, ['address']);
@@ -201,13 +460,69 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Accounts.InternalTransactionsResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every 'internal' transaction of an address, fetching pages as they are consumed
+   * @param {Accounts.InternalTransactionsRequest} params - Same parameters as `getInternalTransactions`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.InternalTransactionsResponse[number]>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const tx of accountsModule.iterateInternalTransactions({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(tx.value); // '1000000000000000000'
+   * }
+   * ```
+   */
+  public iterateInternalTransactions(
+    params: Accounts.InternalTransactionsRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.InternalTransactionsResponse[number]> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getInternalTransactions({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Iterate over every 'internal' transaction of an address in block order, without the 10,000 result limit of a single query.
+   * The block range is walked forward from `startBlock`, starting a new query whenever a window fills up.
+   * @param {Accounts.InternalTransactionsRequest} params - Same parameters as `getInternalTransactions`, `page` and `sort` are ignored
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.InternalTransactionsResponse[number]>} Every record from `startBlock` to `endBlock`, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const tx of accountsModule.iterateAllInternalTransactions({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(tx.blockNumber, tx.value);
+   * }
+   * ```
+   */
+  public iterateAllInternalTransactions(
+    params: Accounts.InternalTransactionsRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.InternalTransactionsResponse[number]> {
+    return this.iterateBlockRange(
+      params,
+      options,
+      (startBlock, endBlock, page, offset, requestOptions) =>
+        this.getInternalTransactions(
+          { ...params, startBlock, endBlock, page, offset, sort: 'asc' },
+          requestOptions
+        )
+    );
+  }
+
   /**
    * Get a list of 'internal' transactions by transaction hash
    * @param {string} txhash - Transaction hash to get internal transactions for
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.InternalTransactionsResponse>} List of internal transactions
    * @throws {EtherscanValidationError} if transaction hash is invalid
    * @example
@@ -220,7 +535,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getInternalTransactionsByHash(
-    txhash: string
+    txhash: string,
+    options?: RequestOptions
   ): Promise<Accounts.InternalTransactionsResponse> {
     // Validate transaction hash
     this.validateTxHash(txhash);
@@ -231,7 +547,7 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Accounts.InternalTransactionsResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -242,6 +558,7 @@ export class _AccountsModule extends BaseModule {
    * @param {number} [page=1] - Page number for pagination
    * @param {number} [offset=10] - Number of records per page
    * @param {'asc'|'desc'} [sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.InternalTransactionsResponse>} List of internal transactions
    * @throws {EtherscanValidationError} if block numbers are invalid or start block is greater than end block
    * @example
@@ -258,7 +575,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getInternalTransactionsByBlockRange(
-    params: Accounts.InternalTransactionsByBlockRangeRequest
+    params: Accounts.InternalTransactionsByBlockRangeRequest,
+    options?: RequestOptions
   ): Promise<Accounts.InternalTransactionsResponse> {
     this.validateRequired(params, ['startBlock', 'endBlock']);
 
@@ -280,10 +598,38 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Accounts.InternalTransactionsResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every 'internal' transaction in a block range, fetching pages as they are consumed
+   * @param {Accounts.InternalTransactionsByBlockRangeRequest} params - Same parameters as `getInternalTransactionsByBlockRange`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.InternalTransactionsResponse[number]>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const tx of accountsModule.iterateInternalTransactionsByBlockRange({
+   *   startBlock: 13481773,
+   *   endBlock: 13491773
+   * })) {
+   *   console.log(tx.hash); // '0x789...xyz'
+   * }
+   * ```
+   */
+  public iterateInternalTransactionsByBlockRange(
+    params: Accounts.InternalTransactionsByBlockRangeRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.InternalTransactionsResponse[number]> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getInternalTransactionsByBlockRange(
+        { ...params, page, offset },
+        requestOptions
+      )
+    );
+  }
+
   /**
    * Get a list of ERC-20 token transfer events by address
    * @param {Object} params - Token transfers request parameters
@@ -294,6 +640,7 @@ export class _AccountsModule extends BaseModule {
    * @param {number} [params.page=1] - Page number for pagination
    * @param {number} [params.offset=10] - Number of records per page
    * @param {'asc'|'desc'} [params.sort='desc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.TokenTransfer>>} List of token transfers
    * @throws {EtherscanValidationError} if address, contract address, or block numbers are invalid
    * @example
@@ -312,7 +659,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getTokenTransfers(
-    params: Accounts.TokenTranfersRequest
+    params: Accounts.TokenTranfersRequest,
+    options?: RequestOptions
   ): Promise<Array<Accounts.TokenTransferResponse>> {
     // Validate required parameters
     this.validateRequiredOr(params, ['address', 'contractAddress']);
@@ -344,10 +692,65 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<Accounts.TokenTransferResponse>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every ERC20 token transfer of an address and/or token, fetching pages as they are consumed
+   * @param {Accounts.TokenTranfersRequest} params - Same parameters as `getTokenTransfers`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.TokenTransferResponse>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const transfer of accountsModule.iterateTokenTransfers({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(transfer.tokenSymbol, transfer.value);
+   * }
+   * ```
+   */
+  public iterateTokenTransfers(
+    params: Accounts.TokenTranfersRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.TokenTransferResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getTokenTransfers({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Iterate over every ERC20 token transfer of an address and/or token in block order, without the 10,000 result limit of a single query.
+   * The block range is walked forward from `startBlock`, starting a new query whenever a window fills up.
+   * @param {Accounts.TokenTranfersRequest} params - Same parameters as `getTokenTransfers`, `page` and `sort` are ignored
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.TokenTransferResponse>} Every record from `startBlock` to `endBlock`, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const transfer of accountsModule.iterateAllTokenTransfers({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(transfer.blockNumber, transfer.tokenSymbol);
+   * }
+   * ```
+   */
+  public iterateAllTokenTransfers(
+    params: Accounts.TokenTranfersRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.TokenTransferResponse> {
+    return this.iterateBlockRange(
+      params,
+      options,
+      (startBlock, endBlock, page, offset, requestOptions) =>
+        this.getTokenTransfers(
+          { ...params, startBlock, endBlock, page, offset, sort: 'asc' },
+          requestOptions
+        )
+    );
+  }
+
   /**
    * Get a list of ERC-721 NFT token transfer events by address
    * @param {Object} params - NFT transfers request parameters
@@ -358,6 +761,7 @@ export class _AccountsModule extends BaseModule {
    * @param {number} [params.page=1] - Page number for pagination
    * @param {number} [params.offset=10] - Number of records per page
    * @param {'asc'|'desc'} [params.sort='desc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.NFTTransfer>>} List of NFT transfers
    * @throws {EtherscanValidationError} if address, contract address, or block numbers are invalid
    * @example
@@ -376,7 +780,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getNFTTransfers(
-    params: Accounts.TokenTranfersRequest
+    params: Accounts.TokenTranfersRequest,
+    options?: RequestOptions
   ): Promise<Array<Accounts.NFTTransferResponse>> {
     // Validate required parameters
     this.validateRequired(params, ['address']);
@@ -408,10 +813,65 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<Accounts.NFTTransferResponse>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every ERC721 token transfer of an address and/or collection, fetching pages as they are consumed
+   * @param {Accounts.TokenTranfersRequest} params - Same parameters as `getNFTTransfers`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.NFTTransferResponse>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const transfer of accountsModule.iterateNFTTransfers({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(transfer.tokenName, transfer.tokenID);
+   * }
+   * ```
+   */
+  public iterateNFTTransfers(
+    params: Accounts.TokenTranfersRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.NFTTransferResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getNFTTransfers({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Iterate over every ERC721 token transfer of an address and/or collection in block order, without the 10,000 result limit of a single query.
+   * The block range is walked forward from `startBlock`, starting a new query whenever a window fills up.
+   * @param {Accounts.TokenTranfersRequest} params - Same parameters as `getNFTTransfers`, `page` and `sort` are ignored
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.NFTTransferResponse>} Every record from `startBlock` to `endBlock`, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const transfer of accountsModule.iterateAllNFTTransfers({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(transfer.blockNumber, transfer.tokenID);
+   * }
+   * ```
+   */
+  public iterateAllNFTTransfers(
+    params: Accounts.TokenTranfersRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.NFTTransferResponse> {
+    return this.iterateBlockRange(
+      params,
+      options,
+      (startBlock, endBlock, page, offset, requestOptions) =>
+        this.getNFTTransfers(
+          { ...params, startBlock, endBlock, page, offset, sort: 'asc' },
+          requestOptions
+        )
+    );
+  }
+
   /**
    * Get a list of ERC-1155 token transfer events by address
    * @param {Object} params - ERC1155 transfers request parameters
@@ -422,6 +882,7 @@ export class _AccountsModule extends BaseModule {
    * @param {number} [params.page=1] - Page number for pagination
    * @param {number} [params.offset=10] - Number of records per page
    * @param {'asc'|'desc'} [params.sort='desc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.ERC1155Transfer>>} List of ERC1155 transfers
    * @throws {EtherscanValidationError} if address, contract address, or block numbers are invalid
    * @example
@@ -437,11 +898,12 @@ export class _AccountsModule extends BaseModule {
    * });
    * console.log(transfers[0].hash); // '0x789...xyz'
    * console.log(transfers[0].tokenID); // '123'
-   * console.log(transfers[0].value); // '100'
+   * console.log(transfers[0].tokenValue); // '100'
    * ```
    */
   public async getERC1155Transfers(
-    params: Accounts.TokenTranfersRequest
+    params: Accounts.TokenTranfersRequest,
+    options?: RequestOptions
   ): Promise<Array<Accounts.ERC1155TransferResponse>> {
     // Validate required parameters
     this.validateRequired(params, ['address']);
@@ -473,15 +935,71 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<Accounts.ERC1155TransferResponse>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every ERC1155 token transfer of an address and/or collection, fetching pages as they are consumed
+   * @param {Accounts.TokenTranfersRequest} params - Same parameters as `getERC1155Transfers`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.ERC1155TransferResponse>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const transfer of accountsModule.iterateERC1155Transfers({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(transfer.tokenID, transfer.value);
+   * }
+   * ```
+   */
+  public iterateERC1155Transfers(
+    params: Accounts.TokenTranfersRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.ERC1155TransferResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getERC1155Transfers({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Iterate over every ERC1155 token transfer of an address and/or collection in block order, without the 10,000 result limit of a single query.
+   * The block range is walked forward from `startBlock`, starting a new query whenever a window fills up.
+   * @param {Accounts.TokenTranfersRequest} params - Same parameters as `getERC1155Transfers`, `page` and `sort` are ignored
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.ERC1155TransferResponse>} Every record from `startBlock` to `endBlock`, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const transfer of accountsModule.iterateAllERC1155Transfers({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(transfer.blockNumber, transfer.tokenID);
+   * }
+   * ```
+   */
+  public iterateAllERC1155Transfers(
+    params: Accounts.TokenTranfersRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.ERC1155TransferResponse> {
+    return this.iterateBlockRange(
+      params,
+      options,
+      (startBlock, endBlock, page, offset, requestOptions) =>
+        this.getERC1155Transfers(
+          { ...params, startBlock, endBlock, page, offset, sort: 'asc' },
+          requestOptions
+        )
+    );
+  }
+
   /**
    * Get list of blocks mined by address
    * @param {string} address - Ethereum address to get mined blocks for
    * @param {number} [page=1] - Page number for pagination
    * @param {number} [offset=10] - Number of records per page
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.MinedBlock>>} List of mined blocks
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -497,7 +1015,8 @@ export class _AccountsModule extends BaseModule {
    * ```
    */
   public async getMinedBlocks(
-    params: Accounts.MinedBlockRequest
+    params: Accounts.MinedBlockRequest,
+    options?: RequestOptions
   ): Promise<Array<Accounts.MinedBlockResponse>> {
     // Validate address
     this.validateAddress(params.address);
@@ -511,7 +1030,248 @@ export class _AccountsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<Accounts.MinedBlockResponse>>
-    >('', apiParams);
+    >('', apiParams, options);
+    return response.result;
+  }
+
+  /**
+   * Iterate over every block validated by an address, fetching pages as they are consumed
+   * @param {Accounts.MinedBlockRequest} params - Same parameters as `getMinedBlocks`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.MinedBlockResponse>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const block of accountsModule.iterateMinedBlocks({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(block.blockNumber); // '3462296'
+   * }
+   * ```
+   */
+  public iterateMinedBlocks(
+    params: Accounts.MinedBlockRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.MinedBlockResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getMinedBlocks({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Get a list of beacon chain withdrawals made to an address
+   * @param {Object} params - Beacon withdrawals request parameters
+   * @param {string} params.address - Ethereum address to get withdrawals for
+   * @param {number} [params.startBlock] - Starting block number
+   * @param {number} [params.endBlock] - Ending block number
+   * @param {number} [params.page=1] - Page number for pagination
+   * @param {number} [params.offset=10] - Number of records per page
+   * @param {'asc'|'desc'} [params.sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Array<Accounts.BeaconWithdrawalResponse>>} List of withdrawals, amounts in Gwei
+   * @throws {EtherscanValidationError} if address or block numbers are invalid
+   * @example
+   * ```ts
+   * const withdrawals = await accountsModule.getBeaconWithdrawals({
+   *   address: '0x123...abc',
+   *   startBlock: 17000000,
+   *   endBlock: 18000000,
+   *   page: 1,
+   *   offset: 100,
+   *   sort: 'asc'
+   * });
+   * console.log(withdrawals[0].validatorIndex); // '123456'
+   * console.log(withdrawals[0].amount); // '16354195' (Gwei)
+   * ```
+   */
+  public async getBeaconWithdrawals(
+    params: Accounts.BeaconWithdrawalsRequest,
+    options?: RequestOptions
+  ): Promise<Array<Accounts.BeaconWithdrawalResponse>> {
+    // Validate required parameters
+    this.validateRequired(params, ['address']);
+    this.validateAddress(params.address);
+
+    // Validate optional block numbers if provided
+    if (params.startBlock !== undefined) {
+      this.validateBlockNumber(params.startBlock);
+    }
+
+    if (params.endBlock !== undefined) {
+      this.validateBlockNumber(params.endBlock);
+    }
+
+    const apiParams = this.createParams('account', 'txsBeaconWithdrawal', {
+      address: params.address,
+      startblock: params.startBlock,
+      endblock: params.endBlock,
+      page: params.page,
+      offset: params.offset,
+      sort: params.sort,
+    });
+
+    const response = await this.httpClient.get<
+      APIResponse<Array<Accounts.BeaconWithdrawalResponse>>
+    >('', apiParams, options);
     return response.result;
   }
+
+  /**
+   * Iterate over every beacon chain withdrawal of an address, fetching pages as they are consumed
+   * @param {Accounts.BeaconWithdrawalsRequest} params - Same parameters as `getBeaconWithdrawals`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.BeaconWithdrawalResponse>} Every record, page after page
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const withdrawal of accountsModule.iterateBeaconWithdrawals({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(withdrawal.validatorIndex, withdrawal.amount);
+   * }
+   * ```
+   */
+  public iterateBeaconWithdrawals(
+    params: Accounts.BeaconWithdrawalsRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.BeaconWithdrawalResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getBeaconWithdrawals({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Iterate over every beacon chain withdrawal of an address in block order, without the 10,000 result limit of a single query.
+   * The block range is walked forward from `startBlock`, starting a new query whenever a window fills up.
+   * @param {Accounts.BeaconWithdrawalsRequest} params - Same parameters as `getBeaconWithdrawals`, `page` and `sort` are ignored
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Accounts.BeaconWithdrawalResponse>} Every record from `startBlock` to `endBlock`, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const withdrawal of accountsModule.iterateAllBeaconWithdrawals({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(withdrawal.blockNumber, withdrawal.amount);
+   * }
+   * ```
+   */
+  public iterateAllBeaconWithdrawals(
+    params: Accounts.BeaconWithdrawalsRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Accounts.BeaconWithdrawalResponse> {
+    return this.iterateBlockRange(
+      params,
+      options,
+      (startBlock, endBlock, page, offset, requestOptions) =>
+        this.getBeaconWithdrawals(
+          { ...params, startBlock, endBlock, page, offset, sort: 'asc' },
+          requestOptions
+        )
+    );
+  }
+
+  /**
+   * Get every transfer of an address (normal and internal transactions, ERC20,
+   * ERC721 and ERC1155 transfers) as a single timeline. The five lists are
+   * fetched in parallel, transfers sharing a transaction hash are grouped, and
+   * groups are sorted by block and position in the block. Transfers of a
+   * transaction are sorted by log index when the explorer returns it.
+   * @param {string} address - Ethereum address to get the activity for
+   * @param {BlockRangeRequest} [range] - Block range to cover, the whole history by default
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {Promise<Accounts.ActivityResponse>} Transactions with all their transfers, oldest first
+   * @throws {EtherscanValidationError} if address or block numbers are invalid
+   * @example
+   * ```ts
+   * const activity = await accountsModule.getActivity('0x123...abc', {
+   *   startBlock: 18000000
+   * });
+   *
+   * for (const { hash, entries } of activity) {
+   *   for (const entry of entries) {
+   *     if (entry.type === 'token') {
+   *       console.log(hash, entry.data.tokenSymbol, entry.data.value);
+   *     }
+   *   }
+   * }
+   * ```
+   */
+  public async getActivity(
+    address: string,
+    range: BlockRangeRequest = {},
+    options: IterateOptions = {}
+  ): Promise<Accounts.ActivityResponse> {
+    this.validateAddress(address);
+
+    const params = {
+      address,
+      startBlock: range.startBlock,
+      endBlock: range.endBlock,
+    };
+
+    const [normal, internal, token, erc721, erc1155] = await Promise.all([
+      collect(this.iterateAllTransactions(params, options)),
+      collect(this.iterateAllInternalTransactions(params, options)),
+      collect(this.iterateAllTokenTransfers(params, options)),
+      collect(this.iterateAllNFTTransfers(params, options)),
+      collect(this.iterateAllERC1155Transfers(params, options)),
+    ]);
+
+    const entries: Accounts.ActivityEntry[] = [
+      ...normal.map((data) => ({ type: 'normal' as const, data })),
+      ...internal.map((data) => ({ type: 'internal' as const, data })),
+      ...token.map((data) => ({ type: 'token' as const, data })),
+      ...erc721.map((data) => ({ type: 'erc721' as const, data })),
+      ...erc1155.map((data) => ({ type: 'erc1155' as const, data })),
+    ];
+
+    const groups = new Map<
+      string,
+      Accounts.ActivityGroup & { transactionIndex: number }
+    >();
+
+    for (const entry of entries) {
+      let group = groups.get(entry.data.hash);
+
+      if (!group) {
+        // Timestamps are Dates when the client normalizes responses
+        const timeStamp: unknown = entry.data.timeStamp;
+
+        group = {
+          hash: entry.data.hash,
+          blockNumber: Number(entry.data.blockNumber),
+          timeStamp:
+            timeStamp instanceof Date
+              ? timeStamp.getTime() / 1000
+              : Number(timeStamp),
+          entries: [],
+          transactionIndex: Infinity,
+        };
+        groups.set(entry.data.hash, group);
+      }
+
+      // Internal transactions do not carry their position in the block
+      if ('transactionIndex' in entry.data) {
+        group.transactionIndex = Number(entry.data.transactionIndex);
+      }
+
+      group.entries.push(entry);
+    }
+
+    return Array.from(groups.values())
+      .sort(
+        (a, b) =>
+          a.blockNumber - b.blockNumber ||
+          a.transactionIndex - b.transactionIndex
+      )
+      .map(({ transactionIndex, ...group }) => ({
+        ...group,
+        entries: group.entries.sort(
+          (a, b) =>
+            getLogIndex(a) - getLogIndex(b) ||
+            ACTIVITY_ORDER[a.type] - ACTIVITY_ORDER[b.type]
+        ),
+      }));
+  }
 }
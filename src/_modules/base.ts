@@ -4,8 +4,15 @@
  */
 
 import { HttpClient } from '../utils/http-client';
-import { EtherscanValidationError } from '../types';
+import {
+  BlockRangeRequest,
+  EtherscanValidationError,
+  IterateOptions,
+  PaginatedRequest,
+  RequestOptions,
+} from '../types';
 import { cleanObject } from '../utils/cleanObject';
+import { flattenPages, paginate, paginateBlockRange } from '../utils/paginate';
 
 /**
  * Base module class for all API modules
@@ -14,15 +21,14 @@ import { cleanObject } from '../utils/cleanObject';
  */
 export abstract class BaseModule {
   protected readonly httpClient: HttpClient;
-  protected readonly apiKey: string;
 
-  constructor(httpClient: HttpClient, apiKey: string) {
+  constructor(httpClient: HttpClient) {
     this.httpClient = httpClient;
-    this.apiKey = apiKey;
   }
 
   /**
-   * Create query parameters for an API request
+   * Create query parameters for an API request.
+   * The API key is added by the HTTP client when the request is sent.
    */
   protected createParams(
     module: string,
@@ -32,11 +38,63 @@ export abstract class BaseModule {
     return cleanObject({
       module,
       action,
-      apikey: this.apiKey,
       ...params,
     });
   }
 
+  /**
+   * Iterate over every record of a paginated endpoint, starting at `params.page`
+   * and fetching `options.pageSize` (or `params.offset`) records per request
+   */
+  protected iterate<T>(
+    params: PaginatedRequest,
+    options: IterateOptions,
+    fetchPage: (
+      page: number,
+      offset: number,
+      options: RequestOptions
+    ) => Promise<T[]>
+  ): AsyncGenerator<T, void, undefined> {
+    const { pageSize, ...requestOptions } = options;
+
+    return flattenPages(
+      paginate((page, offset) => fetchPage(page, offset, requestOptions), {
+        pageSize: pageSize || params.offset,
+        startPage: params.page,
+      })
+    );
+  }
+
+  /**
+   * Iterate over every record of a block range in block order, past the 10,000
+   * result window, by starting a new query at the last block of each full window
+   */
+  protected iterateBlockRange<T extends { blockNumber: string }>(
+    params: BlockRangeRequest & { offset?: number },
+    options: IterateOptions,
+    fetchPage: (
+      startBlock: number,
+      endBlock: number | undefined,
+      page: number,
+      offset: number,
+      options: RequestOptions
+    ) => Promise<T[]>
+  ): AsyncGenerator<T, void, undefined> {
+    const { pageSize, ...requestOptions } = options;
+
+    return flattenPages(
+      paginateBlockRange(
+        (startBlock, endBlock, page, offset) =>
+          fetchPage(startBlock, endBlock, page, offset, requestOptions),
+        {
+          pageSize: pageSize || params.offset,
+          startBlock: params.startBlock,
+          endBlock: params.endBlock,
+        }
+      )
+    );
+  }
+
   /**
    * Validate required parameters
    */
@@ -138,6 +196,18 @@ export abstract class BaseModule {
     return true;
   }
 
+  /**
+   * Validate that a date is a valid Date object
+   */
+  protected validateDate(date: Date): boolean {
+    if (!(date instanceof Date) || isNaN(date.getTime())) {
+      throw new EtherscanValidationError(
+        `Invalid date: ${date}. Must be a valid Date.`
+      );
+    }
+    return true;
+  }
+
   /**
    * Format a request parameter
    */
@@ -4,7 +4,7 @@
  */
 
 import { BaseModule } from './base';
-import { Blocks, APIResponse } from '../types';
+import { Blocks, APIResponse, RequestOptions } from '../types';
 
 /**
  * Blocks module for the Etherscan API
@@ -22,6 +22,7 @@ export class BlocksModule extends BaseModule {
   /**
    * Get block reward by block number
    * @param {Blocks.BlockRewardRequest} params - Request parameters
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Blocks.BlockRewardResponse>} Block reward information including miner address and reward amount
    * @throws {EtherscanValidationError} if block number is invalid
    * @example
@@ -36,7 +37,8 @@ export class BlocksModule extends BaseModule {
    * ```
    */
   public async getBlockReward(
-    params: Blocks.BlockRewardRequest
+    params: Blocks.BlockRewardRequest,
+    options?: RequestOptions
   ): Promise<Blocks.BlockRewardResponse> {
     // Validate required parameters
     this.validateRequired(params, ['blockno']);
@@ -48,13 +50,14 @@ export class BlocksModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Blocks.BlockRewardResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get estimated block countdown for a specific block number
    * @param {Blocks.BlockCountdownRequest} params - Request parameters
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Blocks.BlockCountdownResponse>} Block countdown information including current block, target block, and estimated time
    * @throws {EtherscanValidationError} if block number is invalid
    * @example
@@ -69,7 +72,8 @@ export class BlocksModule extends BaseModule {
    * ```
    */
   public async getBlockCountdown(
-    params: Blocks.BlockCountdownRequest
+    params: Blocks.BlockCountdownRequest,
+    options?: RequestOptions
   ): Promise<Blocks.BlockCountdownResponse> {
     // Validate required parameters
     this.validateRequired(params, ['blockno']);
@@ -81,7 +85,7 @@ export class BlocksModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Blocks.BlockCountdownResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -89,6 +93,7 @@ export class BlocksModule extends BaseModule {
    * Get block number by timestamp
    * @param {number} timestamp - Unix timestamp in seconds
    * @param {'before' | 'after'} [closest='before'] - Whether to return the block before or after the timestamp
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} The block number closest to the given timestamp
    * @throws {EtherscanValidationError} if timestamp is invalid
    * @throws {EtherscanValidationError} if closest parameter is invalid
@@ -105,7 +110,8 @@ export class BlocksModule extends BaseModule {
    */
   public async getBlockNumberByTimestamp(
     timestamp: number,
-    closest: 'before' | 'after' = 'before'
+    closest: 'before' | 'after' = 'before',
+    options?: RequestOptions
   ): Promise<string> {
     // Validate timestamp
     if (!Number.isInteger(timestamp) || timestamp < 0) {
@@ -124,7 +130,8 @@ export class BlocksModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
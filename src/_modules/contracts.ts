@@ -4,7 +4,7 @@
  */
 
 import { BaseModule } from './base';
-import { Contracts, APIResponse } from '../types';
+import { Contracts, APIResponse, RequestOptions } from '../types';
 
 /**
  * Contracts module class that extends BaseModule
@@ -24,6 +24,7 @@ export class ContractsModule extends BaseModule {
    * Get contract ABI for a verified contract
    * @param {Contracts.ABIRequest} params - Parameters for the request
    * @param {string} params.address - The contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} The contract ABI as a JSON string
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -34,7 +35,10 @@ export class ContractsModule extends BaseModule {
    * // Returns: '[{"constant":true,"inputs":[],"name":"name",...}]'
    * ```
    */
-  public async getAbi(params: Contracts.ABIRequest): Promise<string> {
+  public async getAbi(
+    params: Contracts.ABIRequest,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate required parameters
     this.validateRequired(params, ['address']);
     this.validateAddress(params.address);
@@ -45,7 +49,8 @@ export class ContractsModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -53,6 +58,7 @@ export class ContractsModule extends BaseModule {
   /**
    * Get source code for a verified contract
    * @param {string} address - The contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Contracts.SourceCodeResponse[]>} Array of source code information
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -62,13 +68,15 @@ export class ContractsModule extends BaseModule {
    * ```
    */
   public async getSourceCode(
-    address: string
+    address: string,
+    options?: RequestOptions
   ): Promise<Contracts.SourceCodeResponse[]>;
 
   /**
    * Get source code for a verified contract
    * @param {Contracts.SourceCodeRequest} params - Parameters for the request
    * @param {string} params.address - The contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Contracts.SourceCodeResponse[]>} Array of source code information
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -80,11 +88,13 @@ export class ContractsModule extends BaseModule {
    * ```
    */
   public async getSourceCode(
-    params: Contracts.SourceCodeRequest
+    params: Contracts.SourceCodeRequest,
+    options?: RequestOptions
   ): Promise<Contracts.SourceCodeResponse[]>;
 
   public async getSourceCode(
-    addressOrParams: string | Contracts.SourceCodeRequest
+    addressOrParams: string | Contracts.SourceCodeRequest,
+    options?: RequestOptions
   ): Promise<Contracts.SourceCodeResponse[]> {
     // Convert string address to params object if needed
     const params: Contracts.SourceCodeRequest =
@@ -102,7 +112,7 @@ export class ContractsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Contracts.SourceCodeResponse[]>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -118,6 +128,7 @@ export class ContractsModule extends BaseModule {
    * @param {string} [params.constructorArguments] - Constructor arguments if any
    * @param {string} [params.evmVersion] - EVM version used
    * @param {string} [params.licenseType] - License type of the contract
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} The verification GUID
    * @throws {EtherscanValidationError} if required parameters are missing or invalid
    * @example
@@ -136,18 +147,21 @@ export class ContractsModule extends BaseModule {
    * // Returns: 'guid-123...'
    * ```
    */
-  public async verifyContract(params: {
-    contractAddress: string;
-    sourceCode: string;
-    contractName: string;
-    compilerVersion: string;
-    optimizationUsed: boolean;
-    codeformat?: 'solidity-single-file' | 'solidity-standard-json-input';
-    runs?: number;
-    constructorArguments?: string;
-    evmVersion?: string;
-    licenseType?: string;
-  }): Promise<string> {
+  public async verifyContract(
+    params: {
+      contractAddress: string;
+      sourceCode: string;
+      contractName: string;
+      compilerVersion: string;
+      optimizationUsed: boolean;
+      codeformat?: 'solidity-single-file' | 'solidity-standard-json-input';
+      runs?: number;
+      constructorArguments?: string;
+      evmVersion?: string;
+      licenseType?: string;
+    },
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate required parameters
     this.validateRequired(params, [
       'contractAddress',
@@ -173,7 +187,8 @@ export class ContractsModule extends BaseModule {
 
     const response = await this.httpClient.post<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -181,6 +196,7 @@ export class ContractsModule extends BaseModule {
   /**
    * Check status of source code verification
    * @param {string} guid - The verification GUID returned from verifyContract
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} The verification status
    * @throws {EtherscanValidationError} if GUID is missing
    * @example
@@ -189,7 +205,10 @@ export class ContractsModule extends BaseModule {
    * // Returns: 'Pass - Verified' or 'Fail - Unable to verify'
    * ```
    */
-  public async checkVerificationStatus(guid: string): Promise<string> {
+  public async checkVerificationStatus(
+    guid: string,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate required parameters
     this.validateRequired({ guid }, ['guid']);
 
@@ -199,7 +218,8 @@ export class ContractsModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -207,6 +227,7 @@ export class ContractsModule extends BaseModule {
   /**
    * Get contract creation information
    * @param {string[]} contractAddresses - Array of contract addresses
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<any[]>} Array of contract creation information
    * @throws {EtherscanValidationError} if addresses array is empty or invalid
    * @example
@@ -219,7 +240,8 @@ export class ContractsModule extends BaseModule {
    * ```
    */
   public async getContractCreation(
-    contractAddresses: string[]
+    contractAddresses: string[],
+    options?: RequestOptions
   ): Promise<any[]> {
     // Validate required parameters
     if (!Array.isArray(contractAddresses) || contractAddresses.length === 0) {
@@ -235,7 +257,8 @@ export class ContractsModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<any[]>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -4,7 +4,7 @@
  */
 
 import { BaseModule } from './base';
-import { Gas, APIResponse } from '../types';
+import { Gas, APIResponse, RequestOptions } from '../types';
 
 /**
  * Gas module for the Etherscan API
@@ -21,6 +21,7 @@ import { Gas, APIResponse } from '../types';
 export class GasModule extends BaseModule {
   /**
    * Get current Safe, Proposed and Fast gas prices
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Gas.GasOracleResponse>} Current gas prices in Gwei
    * @example
    * ```ts
@@ -31,18 +32,21 @@ export class GasModule extends BaseModule {
    * console.log(gasOracle.baseFee); // '25'
    * ```
    */
-  public async getGasOracle(): Promise<Gas.GasOracleResponse> {
+  public async getGasOracle(
+    options?: RequestOptions
+  ): Promise<Gas.GasOracleResponse> {
     const apiParams = this.createParams('gastracker', 'gasoracle', {});
 
     const response = await this.httpClient.get<
       APIResponse<Gas.GasOracleResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get estimated confirmation time for a given gas price
    * @param {number} gasPrice - Gas price in Gwei
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Estimated confirmation time in seconds
    * @throws {EtherscanValidationError} if gas price is invalid
    * @example
@@ -51,7 +55,10 @@ export class GasModule extends BaseModule {
    * console.log(confirmationTime); // '30' (seconds)
    * ```
    */
-  public async estimateConfirmationTime(gasPrice: number): Promise<string> {
+  public async estimateConfirmationTime(
+    gasPrice: number,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate parameters
     if (!Number.isInteger(gasPrice) || gasPrice <= 0) {
       throw new Error('Gas price must be a positive integer');
@@ -63,7 +70,8 @@ export class GasModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -4,7 +4,9 @@
  */
 
 import { BaseModule } from './base';
-import { Logs, APIResponse } from '../types';
+import { Logs, APIResponse, RequestOptions } from '../types';
+import { MAX_LOGS_PER_QUERY } from '../constants';
+import { bisectBlockRange } from '../utils/paginate';
 
 /**
  * Logs module for the Etherscan API
@@ -29,6 +31,7 @@ export class LogsModule extends BaseModule {
    * @param {'and' | 'or'} [params.topic0_1_opr='and'] - Operator between topic0 and topic1
    * @param {'and' | 'or'} [params.topic0_2_opr='and'] - Operator between topic0 and topic2
    * @param {'and' | 'or'} [params.topic1_2_opr='and'] - Operator between topic1 and topic2
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Logs.LogsResponse>} Array of event logs matching the criteria
    * @throws {EtherscanValidationError} if address is invalid
    * @throws {EtherscanValidationError} if block numbers are invalid
@@ -50,7 +53,10 @@ export class LogsModule extends BaseModule {
    * console.log(logs[0].topics); // ['0xddf252ad...', '0x000000000000000000000000...']
    * ```
    */
-  public async getLogs(params: Logs.LogsRequest): Promise<Logs.LogsResponse> {
+  public async getLogs(
+    params: Logs.LogsRequest,
+    options?: RequestOptions
+  ): Promise<Logs.LogsResponse> {
     // Validate required parameters
     this.validateRequiredOr(params, ['address', 'startBlock']);
     this.validateAddressOr([params.address]);
@@ -93,12 +99,134 @@ export class LogsModule extends BaseModule {
       topic1_2_opr: params.topic1_2_opr,
       topic1_3_opr: params.topic1_3_opr,
       topic2_3_opr: params.topic2_3_opr,
+      page: params.page,
+      offset: params.offset,
     });
 
     const response = await this.httpClient.get<APIResponse<Logs.LogsResponse>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
+
+  /**
+   * Iterate over every event log matching the filter in block order, beyond the
+   * 1,000 logs a single `getLogs` query returns. Block ranges that hit the cap
+   * are split in half until every part fits, and blocks with more than 1,000 logs
+   * are paged through.
+   * @param {Logs.LogsRequest} params - Same parameters as `getLogs`, `page` and `offset` are ignored. Without `endBlock` the scan stops at the latest block.
+   * @param {Logs.IterateLogsOptions} [options] - Page size, progress callback and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Logs.Log>} Every matching log, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * for await (const log of logsModule.iterateLogs(
+   *   { address: '0x123...', startBlock: 1000000, endBlock: 2000000 },
+   *   { onProgress: ({ progress }) => console.log(`${progress * 100}%`) }
+   * )) {
+   *   console.log(log.transactionHash, log.logIndex);
+   * }
+   * ```
+   */
+  public async *iterateLogs(
+    params: Logs.LogsRequest,
+    options: Logs.IterateLogsOptions = {}
+  ): AsyncGenerator<Logs.Log, void, undefined> {
+    const { pageSize, onProgress, ...requestOptions } = options;
+    const startBlock = params.startBlock || 0;
+    const endBlock =
+      params.endBlock ?? (await this.getLatestBlockNumber(requestOptions));
+    let logsFound = 0;
+
+    const ranges = bisectBlockRange(
+      (fromBlock, toBlock, page, offset) =>
+        this.getLogs(
+          { ...params, startBlock: fromBlock, endBlock: toBlock, page, offset },
+          requestOptions
+        ),
+      { startBlock, endBlock, pageSize: pageSize || MAX_LOGS_PER_QUERY }
+    );
+
+    for await (const range of ranges) {
+      // Pages of a busy block may overlap if new logs shift them
+      const seen = new Set<string>();
+      const logs = range.items
+        .filter((log) => {
+          const key = `${log.transactionHash}:${log.logIndex}`;
+
+          if (seen.has(key)) {
+            return false;
+          }
+
+          seen.add(key);
+          return true;
+        })
+        .sort(
+          (a, b) =>
+            Number(a.blockNumber) - Number(b.blockNumber) ||
+            Number(a.logIndex) - Number(b.logIndex)
+        );
+
+      logsFound += logs.length;
+
+      if (onProgress) {
+        onProgress({
+          startBlock,
+          endBlock,
+          currentBlock: range.endBlock,
+          logsFound,
+          progress:
+            (range.endBlock - startBlock + 1) / (endBlock - startBlock + 1),
+        });
+      }
+
+      yield* logs;
+    }
+  }
+
+  /**
+   * Get every event log matching the filter, beyond the 1,000 logs a single
+   * `getLogs` query returns. See `iterateLogs` to process logs as they arrive.
+   * @param {Logs.LogsRequest} params - Same parameters as `getLogs`, `page` and `offset` are ignored. Without `endBlock` the scan stops at the latest block.
+   * @param {Logs.IterateLogsOptions} [options] - Page size, progress callback and per-call options such as an abort signal or priority
+   * @returns {Promise<Logs.LogsResponse>} Every matching log, oldest first
+   * @throws {EtherscanValidationError} if parameters are invalid
+   * @example
+   * ```ts
+   * const logs = await logsModule.getAllLogs({
+   *   address: '0x123...',
+   *   startBlock: 1000000,
+   *   endBlock: 2000000
+   * });
+   * console.log(logs.length); // 48213
+   * ```
+   */
+  public async getAllLogs(
+    params: Logs.LogsRequest,
+    options?: Logs.IterateLogsOptions
+  ): Promise<Logs.LogsResponse> {
+    const logs: Logs.LogsResponse = [];
+
+    for await (const log of this.iterateLogs(params, options)) {
+      logs.push(log);
+    }
+
+    return logs;
+  }
+
+  /**
+   * Get the latest block number through the proxy module
+   */
+  private async getLatestBlockNumber(options: RequestOptions): Promise<number> {
+    const apiParams = this.createParams('proxy', 'eth_blockNumber');
+
+    const response = await this.httpClient.get<APIResponse<string>>(
+      '',
+      apiParams,
+      { ...options, normalize: false }
+    );
+    return Number(response.result);
+  }
 }
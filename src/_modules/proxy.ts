@@ -4,7 +4,7 @@
  */
 
 import { BaseModule } from './base';
-import { Proxy, APIResponse } from '../types';
+import { Proxy, APIResponse, RequestOptions } from '../types';
 
 /**
  * Proxy module for the Etherscan API
@@ -38,6 +38,7 @@ export class ProxyModule extends BaseModule {
 
   /**
    * Get the number of most recent block
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} The number of the most recent block
    * @example
    * ```ts
@@ -45,12 +46,13 @@ export class ProxyModule extends BaseModule {
    * console.log(blockNumber); // '12345678'
    * ```
    */
-  public async getBlockNumber(): Promise<string> {
+  public async getBlockNumber(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_blockNumber', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -58,6 +60,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get information about a block by block number
    * @param {string} blockNumber - Block number in hex format or `'latest'`, `'earliest'`, `'pending'`
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Block>} Block information
    * @throws {EtherscanValidationError} if block number is invalid
    * @example
@@ -69,7 +72,8 @@ export class ProxyModule extends BaseModule {
    * ```
    */
   public async getBlockByNumber(
-    blockNumber: string
+    blockNumber: string,
+    options?: RequestOptions
   ): Promise<Proxy.BlockResponse> {
     const apiParams = this.createParams('proxy', 'eth_getBlockByNumber', {
       tag: blockNumber,
@@ -78,13 +82,14 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.BlockResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get information about a transaction by hash
    * @param {string} txHash - Transaction hash
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Transaction>} Transaction information
    * @throws {EtherscanValidationError} if transaction hash is invalid
    * @example
@@ -97,7 +102,8 @@ export class ProxyModule extends BaseModule {
    * ```
    */
   public async getTransactionByHash(
-    txHash: string
+    txHash: string,
+    options?: RequestOptions
   ): Promise<Proxy.TransactionResponse> {
     // Validate transaction hash
     this.validateTxHash(txHash);
@@ -108,13 +114,14 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.TransactionResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get the receipt of a transaction by hash
    * @param {string} txHash - Transaction hash
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.TransactionReceipt>} Transaction receipt information
    * @throws {EtherscanValidationError} if transaction hash is invalid
    * @example
@@ -127,7 +134,8 @@ export class ProxyModule extends BaseModule {
    * ```
    */
   public async getTransactionReceipt(
-    txHash: string
+    txHash: string,
+    options?: RequestOptions
   ): Promise<Proxy.TransactionReceiptResponse> {
     // Validate transaction hash
     this.validateTxHash(txHash);
@@ -138,13 +146,14 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.TransactionReceiptResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get the number of transactions sent from an address
    * @param {string} address - Ethereum address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Number of transactions sent from the address
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -153,7 +162,10 @@ export class ProxyModule extends BaseModule {
    * console.log(nonce); // '0x42'
    * ```
    */
-  public async getTransactionCount(address: string): Promise<string> {
+  public async getTransactionCount(
+    address: string,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate address
     this.validateAddress(address);
 
@@ -164,7 +176,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -172,6 +185,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the code at a given address
    * @param {string} address - Contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Contract bytecode
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -180,7 +194,10 @@ export class ProxyModule extends BaseModule {
    * console.log(code); // '0x608060405234801561001057600080fd5b...'
    * ```
    */
-  public async getCode(address: string): Promise<string> {
+  public async getCode(
+    address: string,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate address
     this.validateAddress(address);
 
@@ -191,7 +208,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -200,6 +218,7 @@ export class ProxyModule extends BaseModule {
    * Get the value from a storage position at a given address
    * @param {string} address - Contract address
    * @param {string} position - Storage position in hex format
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Value at the storage position
    * @throws {EtherscanValidationError} if address is invalid
    * @throws {EtherscanValidationError} if position is invalid
@@ -214,7 +233,8 @@ export class ProxyModule extends BaseModule {
    */
   public async getStorageAt(
     address: string,
-    position: string
+    position: string,
+    options?: RequestOptions
   ): Promise<string> {
     // Validate address
     this.validateAddress(address);
@@ -232,13 +252,15 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current gas price in Wei
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Current gas price in Wei
    * @example
    * ```ts
@@ -246,18 +268,20 @@ export class ProxyModule extends BaseModule {
    * console.log(gasPrice); // '0x4a817c800'
    * ```
    */
-  public async getGasPrice(): Promise<string> {
+  public async getGasPrice(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_gasPrice', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current network hash rate
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Current network hash rate in hashes per second
    * @example
    * ```ts
@@ -265,18 +289,20 @@ export class ProxyModule extends BaseModule {
    * console.log(hashRate); // '0x0000000000000000000000000000000000000000000000000000000000000000'
    * ```
    */
-  public async getHashRate(): Promise<string> {
+  public async getHashRate(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_hashrate', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current network difficulty
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Current network difficulty
    * @example
    * ```ts
@@ -284,18 +310,20 @@ export class ProxyModule extends BaseModule {
    * console.log(difficulty); // '0x0000000000000000000000000000000000000000000000000000000000000000'
    * ```
    */
-  public async getDifficulty(): Promise<string> {
+  public async getDifficulty(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_difficulty', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current network mining status
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<boolean>} Whether the network is currently mining
    * @example
    * ```ts
@@ -303,18 +331,20 @@ export class ProxyModule extends BaseModule {
    * console.log(isMining); // false
    * ```
    */
-  public async isMining(): Promise<boolean> {
+  public async isMining(options?: RequestOptions): Promise<boolean> {
     const apiParams = this.createParams('proxy', 'eth_mining', {});
 
     const response = await this.httpClient.get<APIResponse<boolean>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current network syncing status
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.SyncingStatus | boolean>} Network syncing status or false if not syncing
    * @example
    * ```ts
@@ -327,17 +357,20 @@ export class ProxyModule extends BaseModule {
    * }
    * ```
    */
-  public async isSyncing(): Promise<Proxy.SyncingStatusResponse | boolean> {
+  public async isSyncing(
+    options?: RequestOptions
+  ): Promise<Proxy.SyncingStatusResponse | boolean> {
     const apiParams = this.createParams('proxy', 'eth_syncing', {});
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.SyncingStatusResponse | boolean>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get the current network coinbase address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Current network coinbase address
    * @example
    * ```ts
@@ -345,18 +378,20 @@ export class ProxyModule extends BaseModule {
    * console.log(coinbase); // '0x123...'
    * ```
    */
-  public async getCoinbase(): Promise<string> {
+  public async getCoinbase(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_coinbase', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current network gas limit
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Current network gas limit
    * @example
    * ```ts
@@ -364,18 +399,20 @@ export class ProxyModule extends BaseModule {
    * console.log(gasLimit); // '0x47b760'
    * ```
    */
-  public async getGasLimit(): Promise<string> {
+  public async getGasLimit(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_gasLimit', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
   /**
    * Get the current network accounts
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string[]>} List of accounts on the network
    * @example
    * ```ts
@@ -383,12 +420,13 @@ export class ProxyModule extends BaseModule {
    * console.log(accounts); // ['0x123...', '0x456...']
    * ```
    */
-  public async getAccounts(): Promise<string[]> {
+  public async getAccounts(options?: RequestOptions): Promise<string[]> {
     const apiParams = this.createParams('proxy', 'eth_accounts', {});
 
     const response = await this.httpClient.get<APIResponse<string[]>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -396,6 +434,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the current network block transaction count by block number
    * @param {string} blockNumber - Block number in hex format or 'latest', 'earliest', 'pending'
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Number of transactions in the block
    * @throws {EtherscanValidationError} if block number is invalid
    * @example
@@ -405,7 +444,8 @@ export class ProxyModule extends BaseModule {
    * ```
    */
   public async getBlockTransactionCountByNumber(
-    blockNumber: string
+    blockNumber: string,
+    options?: RequestOptions
   ): Promise<string> {
     const apiParams = this.createParams(
       'proxy',
@@ -417,7 +457,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -425,6 +466,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the current network block transaction count by block hash
    * @param {string} blockHash - Block hash
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Number of transactions in the block
    * @throws {EtherscanValidationError} if block hash is invalid
    * @example
@@ -434,7 +476,8 @@ export class ProxyModule extends BaseModule {
    * ```
    */
   public async getBlockTransactionCountByHash(
-    blockHash: string
+    blockHash: string,
+    options?: RequestOptions
   ): Promise<string> {
     // Validate block hash
     this.validateBlockHash(blockHash);
@@ -449,7 +492,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -457,6 +501,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the current network uncle count by block number
    * @param {string} blockNumber - Block number in hex format or 'latest', 'earliest', 'pending'
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Number of uncles in the block
    * @throws {EtherscanValidationError} if block number is invalid
    * @example
@@ -466,7 +511,8 @@ export class ProxyModule extends BaseModule {
    * ```
    */
   public async getUncleCountByBlockNumber(
-    blockNumber: string
+    blockNumber: string,
+    options?: RequestOptions
   ): Promise<string> {
     const apiParams = this.createParams(
       'proxy',
@@ -478,7 +524,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -486,6 +533,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the current network uncle count by block hash
    * @param {string} blockHash - Block hash
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Number of uncles in the block
    * @throws {EtherscanValidationError} if block hash is invalid
    * @example
@@ -494,7 +542,10 @@ export class ProxyModule extends BaseModule {
    * console.log(uncleCount); // '0x1'
    * ```
    */
-  public async getUncleCountByBlockHash(blockHash: string): Promise<string> {
+  public async getUncleCountByBlockHash(
+    blockHash: string,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate block hash
     this.validateBlockHash(blockHash);
 
@@ -508,7 +559,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -517,6 +569,7 @@ export class ProxyModule extends BaseModule {
    * Get the current network uncle by block hash and index
    * @param {string} blockHash - Block hash
    * @param {string} index - Uncle index in hex format
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Block>} Uncle block information
    * @throws {EtherscanValidationError} if block hash is invalid
    * @throws {EtherscanValidationError} if index is invalid
@@ -532,7 +585,8 @@ export class ProxyModule extends BaseModule {
    */
   public async getUncleByBlockHashAndIndex(
     blockHash: string,
-    index: string
+    index: string,
+    options?: RequestOptions
   ): Promise<Proxy.BlockResponse> {
     // Validate block hash
     this.validateBlockHash(blockHash);
@@ -553,7 +607,7 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.BlockResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -561,6 +615,7 @@ export class ProxyModule extends BaseModule {
    * Get the current network uncle by block number and index
    * @param {string} blockNumber - Block number in hex format or 'latest', 'earliest', 'pending'
    * @param {string} index - Uncle index in hex format
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Block>} Uncle block information
    * @throws {EtherscanValidationError} if block number is invalid
    * @throws {EtherscanValidationError} if index is invalid
@@ -576,7 +631,8 @@ export class ProxyModule extends BaseModule {
    */
   public async getUncleByBlockNumberAndIndex(
     blockNumber: string,
-    index: string
+    index: string,
+    options?: RequestOptions
   ): Promise<Proxy.BlockResponse> {
     // Validate index (must be hex string)
     if (!index.startsWith('0x')) {
@@ -594,12 +650,13 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.BlockResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get the current network compilation
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Network compilation information
    * @example
    * ```ts
@@ -607,12 +664,13 @@ export class ProxyModule extends BaseModule {
    * console.log(compilation); // '["solidity"]'
    * ```
    */
-  public async getCompilers(): Promise<string> {
+  public async getCompilers(options?: RequestOptions): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_getCompilers', {});
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -620,6 +678,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the current network logs
    * @param {Proxy.LogRequest} params - Log request parameters
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Log[]>} Array of log entries
    * @throws {EtherscanValidationError} if parameters are invalid
    * @example
@@ -634,17 +693,21 @@ export class ProxyModule extends BaseModule {
    * console.log(logs[0].topics); // ['0xdef...']
    * ```
    */
-  public async getLogs(params: Proxy.LogRequest): Promise<Proxy.LogResponse[]> {
+  public async getLogs(
+    params: Proxy.LogRequest,
+    options?: RequestOptions
+  ): Promise<Proxy.LogResponse[]> {
     const apiParams = this.createParams('proxy', 'eth_getLogs', params);
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.LogResponse[]>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get the current network work
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Work>} Current network work information
    * @example
    * ```ts
@@ -654,12 +717,13 @@ export class ProxyModule extends BaseModule {
    * console.log(work.target); // '0x123...'
    * ```
    */
-  public async getWork(): Promise<Proxy.WorkResponse> {
+  public async getWork(options?: RequestOptions): Promise<Proxy.WorkResponse> {
     const apiParams = this.createParams('proxy', 'eth_getWork', {});
 
     const response = await this.httpClient.get<APIResponse<Proxy.WorkResponse>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -669,6 +733,7 @@ export class ProxyModule extends BaseModule {
    * @param {string} nonce - Nonce value
    * @param {string} powHash - Proof of work hash
    * @param {string} mixDigest - Mix digest
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<boolean>} Whether the work was accepted
    * @throws {EtherscanValidationError} if parameters are invalid
    * @example
@@ -684,7 +749,8 @@ export class ProxyModule extends BaseModule {
   public async submitWork(
     nonce: string,
     powHash: string,
-    mixDigest: string
+    mixDigest: string,
+    options?: RequestOptions
   ): Promise<boolean> {
     // Validate parameters (must be hex strings)
     if (
@@ -703,7 +769,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<boolean>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -711,6 +778,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Submit a transaction to the network
    * @param {string} rawTx - Raw transaction data in hex format
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Transaction hash
    * @throws {EtherscanValidationError} if raw transaction is invalid
    * @example
@@ -719,7 +787,10 @@ export class ProxyModule extends BaseModule {
    * console.log(txHash); // '0xdef...'
    * ```
    */
-  public async sendRawTransaction(rawTx: string): Promise<string> {
+  public async sendRawTransaction(
+    rawTx: string,
+    options?: RequestOptions
+  ): Promise<string> {
     // Validate raw transaction (must be hex string)
     if (!rawTx.startsWith('0x')) {
       throw new Error('Raw transaction must be a hex string starting with 0x');
@@ -731,7 +802,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -739,6 +811,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Call a contract method without creating a transaction
    * @param {Proxy.CallRequest} params - Call request parameters
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Return value of the contract method
    * @throws {EtherscanValidationError} if parameters are invalid
    * @example
@@ -754,7 +827,10 @@ export class ProxyModule extends BaseModule {
    * console.log(result); // '0xdef...'
    * ```
    */
-  public async call(params: Proxy.CallRequest): Promise<string> {
+  public async call(
+    params: Proxy.CallRequest,
+    options?: RequestOptions
+  ): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_call', {
       ...params,
       tag: 'latest',
@@ -762,7 +838,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -770,6 +847,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Estimate gas for a transaction
    * @param {Proxy.CallRequest} params - Transaction parameters
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Estimated gas limit
    * @throws {EtherscanValidationError} if parameters are invalid
    * @example
@@ -783,7 +861,10 @@ export class ProxyModule extends BaseModule {
    * console.log(gasLimit); // '0x5208'
    * ```
    */
-  public async estimateGas(params: Proxy.CallRequest): Promise<string> {
+  public async estimateGas(
+    params: Proxy.CallRequest,
+    options?: RequestOptions
+  ): Promise<string> {
     const apiParams = this.createParams('proxy', 'eth_estimateGas', {
       ...params,
       tag: 'latest',
@@ -791,7 +872,8 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -799,6 +881,7 @@ export class ProxyModule extends BaseModule {
   /**
    * Get the current network block by hash
    * @param {string} blockHash - Block hash
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Block>} Block information
    * @throws {EtherscanValidationError} if block hash is invalid
    * @example
@@ -808,7 +891,10 @@ export class ProxyModule extends BaseModule {
    * console.log(block.hash); // '0xabc...'
    * ```
    */
-  public async getBlockByHash(blockHash: string): Promise<Proxy.BlockResponse> {
+  public async getBlockByHash(
+    blockHash: string,
+    options?: RequestOptions
+  ): Promise<Proxy.BlockResponse> {
     // Validate block hash
     this.validateBlockHash(blockHash);
 
@@ -819,7 +905,7 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.BlockResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -827,6 +913,7 @@ export class ProxyModule extends BaseModule {
    * Get the current network transaction by block hash and index
    * @param {string} blockHash - Block hash
    * @param {string} index - Transaction index in hex format
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Transaction>} Transaction information
    * @throws {EtherscanValidationError} if block hash is invalid
    * @throws {EtherscanValidationError} if index is invalid
@@ -842,7 +929,8 @@ export class ProxyModule extends BaseModule {
    */
   public async getTransactionByBlockHashAndIndex(
     blockHash: string,
-    index: string
+    index: string,
+    options?: RequestOptions
   ): Promise<Proxy.TransactionResponse> {
     // Validate block hash
     this.validateBlockHash(blockHash);
@@ -863,7 +951,7 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.TransactionResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -871,6 +959,7 @@ export class ProxyModule extends BaseModule {
    * Get the current network transaction by block number and index
    * @param {string} blockNumber - Block number in hex format or 'latest', 'earliest', 'pending'
    * @param {string} index - Transaction index in hex format
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Proxy.Transaction>} Transaction information
    * @throws {EtherscanValidationError} if block number is invalid
    * @throws {EtherscanValidationError} if index is invalid
@@ -886,7 +975,8 @@ export class ProxyModule extends BaseModule {
    */
   public async getTransactionByBlockNumberAndIndex(
     blockNumber: string,
-    index: string
+    index: string,
+    options?: RequestOptions
   ): Promise<Proxy.TransactionResponse> {
     // Validate index (must be hex string)
     if (!index.startsWith('0x')) {
@@ -904,7 +994,7 @@ export class ProxyModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Proxy.TransactionResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 }
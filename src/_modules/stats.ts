@@ -4,7 +4,7 @@
  */
 
 import { BaseModule } from './base';
-import { Stats, APIResponse } from '../types';
+import { Stats, APIResponse, RequestOptions } from '../types';
 
 /**
  * Stats module for the Etherscan API
@@ -21,6 +21,7 @@ import { Stats, APIResponse } from '../types';
 export class StatsModule extends BaseModule {
   /**
    * Get the current Ether price in BTC and USD
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Stats.EthPriceResponse>} Current ETH price information
    * @example
    * ```ts
@@ -31,12 +32,14 @@ export class StatsModule extends BaseModule {
    * console.log(price.ethusd_timestamp); // '1631234567'
    * ```
    */
-  public async getEthPrice(): Promise<Stats.EthPriceResponse> {
+  public async getEthPrice(
+    options?: RequestOptions
+  ): Promise<Stats.EthPriceResponse> {
     const apiParams = this.createParams('stats', 'ethprice', {});
 
     const response = await this.httpClient.get<
       APIResponse<Stats.EthPriceResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -44,6 +47,7 @@ export class StatsModule extends BaseModule {
    * Get the total amount of Ether in circulation, excluding ETH2 Staking
    * rewards and EIP1559 burnt fees
    *
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Stats.EthSupplyResponse>} Total ETH supply information
    * @example
    * ```ts
@@ -51,12 +55,14 @@ export class StatsModule extends BaseModule {
    * console.log(supply.ethsupply); // '120000000000000000000000000'
    * ```
    */
-  public async getBasicEthSupply(): Promise<Stats.EthSupplyResponse> {
+  public async getBasicEthSupply(
+    options?: RequestOptions
+  ): Promise<Stats.EthSupplyResponse> {
     const apiParams = this.createParams('stats', 'ethsupply', {});
 
     const response = await this.httpClient.get<
       APIResponse<Stats.EthSupplyResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -64,6 +70,7 @@ export class StatsModule extends BaseModule {
    * Get the total amount of Ether in circulation, including ETH2 Staking
    * rewards, EIP1559 burnt fees, and total withdrawn ETH from the beacon chain
    *
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Stats.EthSupplyResponse>} Total ETH supply information
    * @example
    * ```ts
@@ -71,17 +78,20 @@ export class StatsModule extends BaseModule {
    * console.log(supply.ethsupply); // '120000000000000000000000000'
    * ```
    */
-  public async getEthSupply(): Promise<Stats.EthSupplyResponse> {
+  public async getEthSupply(
+    options?: RequestOptions
+  ): Promise<Stats.EthSupplyResponse> {
     const apiParams = this.createParams('stats', 'ethsupply2', {});
 
     const response = await this.httpClient.get<
       APIResponse<Stats.EthSupplyResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get the total number of Ethereum nodes
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<number>} Total number of nodes
    * @example
    * ```ts
@@ -89,12 +99,13 @@ export class StatsModule extends BaseModule {
    * console.log(nodeCount); // 12345
    * ```
    */
-  public async getNodeCount(): Promise<number> {
+  public async getNodeCount(options?: RequestOptions): Promise<number> {
     const apiParams = this.createParams('stats', 'nodecount', {});
 
     const response = await this.httpClient.get<APIResponse<number>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -107,6 +118,7 @@ export class StatsModule extends BaseModule {
    * @param {string} [params.clientType='geth'] - Client type (geth, parity, etc.)
    * @param {string} [params.syncMode='default'] - Sync mode
    * @param {'asc'|'desc'} [params.sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Stats.EthNodeSizeResponse>} Node size information
    * @throws {EtherscanValidationError} if date format is invalid
    * @example
@@ -122,13 +134,16 @@ export class StatsModule extends BaseModule {
    * console.log(nodeSize.clientType); // 'geth'
    * ```
    */
-  public async getNodeSize(params: {
-    startDate: string;
-    endDate: string;
-    clientType?: 'geth' | 'parity';
-    syncMode?: 'default' | 'archive';
-    sort?: 'asc' | 'desc';
-  }): Promise<Stats.EthNodeSizeResponse> {
+  public async getNodeSize(
+    params: {
+      startDate: string;
+      endDate: string;
+      clientType?: 'geth' | 'parity';
+      syncMode?: 'default' | 'archive';
+      sort?: 'asc' | 'desc';
+    },
+    options?: RequestOptions
+  ): Promise<Stats.EthNodeSizeResponse> {
     // Validate date format if provided
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
     if (params.startDate && !dateRegex.test(params.startDate)) {
@@ -148,12 +163,13 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Stats.EthNodeSizeResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get Ethereum daily network transaction fee data
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<{UTCDate: string, transactionFee_ETH: string}>>} Daily transaction fee data
    * @example
    * ```ts
@@ -165,7 +181,8 @@ export class StatsModule extends BaseModule {
   public async getDailyNetworkTransactionFee(
     startDate: string,
     endDate: string,
-    sort: 'asc' | 'desc' = 'asc'
+    sort: 'asc' | 'desc' = 'asc',
+    options?: RequestOptions
   ): Promise<Array<{ UTCDate: string; transactionFee_ETH: string }>> {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -181,12 +198,13 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<{ UTCDate: string; transactionFee_ETH: string }>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
   /**
    * Get Ethereum daily new address count
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<{UTCDate: string, newAddressCount: number}>>} Daily new address count data
    * @example
    * ```ts
@@ -198,7 +216,8 @@ export class StatsModule extends BaseModule {
   public async getDailyNewAddressCount(
     startDate: string,
     endDate: string,
-    sort: 'asc' | 'desc' = 'asc'
+    sort: 'asc' | 'desc' = 'asc',
+    options?: RequestOptions
   ): Promise<Array<{ UTCDate: string; newAddressCount: number }>> {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -214,7 +233,7 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<{ UTCDate: string; newAddressCount: number }>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -223,6 +242,7 @@ export class StatsModule extends BaseModule {
    * @param {string} startDate - Start date in YYYY-MM-DD format
    * @param {string} endDate - End date in YYYY-MM-DD format
    * @param {'asc'|'desc'} [sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<{UTCDate: string, transactionCount: number}>>} Daily transaction count data
    * @throws {EtherscanValidationError} if date format is invalid
    * @example
@@ -239,7 +259,8 @@ export class StatsModule extends BaseModule {
   public async getDailyTransactionCount(
     startDate: string,
     endDate: string,
-    sort: 'asc' | 'desc' = 'asc'
+    sort: 'asc' | 'desc' = 'asc',
+    options?: RequestOptions
   ): Promise<Array<{ UTCDate: string; transactionCount: number }>> {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -255,7 +276,7 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<{ UTCDate: string; transactionCount: number }>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -264,6 +285,7 @@ export class StatsModule extends BaseModule {
    * @param {string} startDate - Start date in YYYY-MM-DD format
    * @param {string} endDate - End date in YYYY-MM-DD format
    * @param {'asc'|'desc'} [sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<{UTCDate: string, avgBlockSize: number}>>} Daily average block size data
    * @throws {EtherscanValidationError} if date format is invalid
    * @example
@@ -280,7 +302,8 @@ export class StatsModule extends BaseModule {
   public async getDailyAverageBlockSize(
     startDate: string,
     endDate: string,
-    sort: 'asc' | 'desc' = 'asc'
+    sort: 'asc' | 'desc' = 'asc',
+    options?: RequestOptions
   ): Promise<Array<{ UTCDate: string; avgBlockSize: number }>> {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -296,7 +319,7 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<{ UTCDate: string; avgBlockSize: number }>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -305,6 +328,7 @@ export class StatsModule extends BaseModule {
    * @param {string} startDate - Start date in YYYY-MM-DD format
    * @param {string} endDate - End date in YYYY-MM-DD format
    * @param {'asc'|'desc'} [sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<{UTCDate: string, avgBlockTime: number}>>} Daily average block time data
    * @throws {EtherscanValidationError} if date format is invalid
    * @example
@@ -321,7 +345,8 @@ export class StatsModule extends BaseModule {
   public async getDailyAverageBlockTime(
     startDate: string,
     endDate: string,
-    sort: 'asc' | 'desc' = 'asc'
+    sort: 'asc' | 'desc' = 'asc',
+    options?: RequestOptions
   ): Promise<Array<{ UTCDate: string; avgBlockTime: number }>> {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -337,7 +362,7 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<{ UTCDate: string; avgBlockTime: number }>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -346,6 +371,7 @@ export class StatsModule extends BaseModule {
    * @param {string} startDate - Start date in YYYY-MM-DD format
    * @param {string} endDate - End date in YYYY-MM-DD format
    * @param {'asc'|'desc'} [sort='asc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<{UTCDate: string, uncleCount: number}>>} Daily uncle block count data
    * @throws {EtherscanValidationError} if date format is invalid
    * @example
@@ -362,7 +388,8 @@ export class StatsModule extends BaseModule {
   public async getDailyUncleBlockCount(
     startDate: string,
     endDate: string,
-    sort: 'asc' | 'desc' = 'asc'
+    sort: 'asc' | 'desc' = 'asc',
+    options?: RequestOptions
   ): Promise<Array<{ UTCDate: string; uncleCount: number }>> {
     // Validate date format
     const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
@@ -378,7 +405,7 @@ export class StatsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Array<{ UTCDate: string; uncleCount: number }>>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 }
@@ -3,8 +3,61 @@
  * @module TokensModule
  */
 
+import { _AccountsModule } from './accounts';
 import { BaseModule } from './base';
-import { Tokens, APIResponse } from '../types';
+import { BlocksModule } from './blocks';
+import { HttpClient } from '../utils/http-client';
+import {
+  Tokens,
+  APIResponse,
+  EtherscanValidationError,
+  IterateOptions,
+  RequestOptions,
+  ResultWindowTooLargeError,
+} from '../types';
+import { DEFAULT_PAGE_SIZE, MAX_RESULT_WINDOW } from '../constants';
+import { findChainName, getChainMetadata } from '../utils/chains';
+import { formatUnits } from '../utils/format';
+import { collect } from '../utils/paginate';
+
+/**
+ * Precision of the fractions computed from bigint amounts
+ */
+const RATIO_SCALE = 1e15;
+
+/**
+ * Divide two bigint amounts, returning a number
+ */
+function ratio(part: bigint, total: bigint): number {
+  if (total === BigInt(0)) {
+    return 0;
+  }
+
+  return Number((part * BigInt(RATIO_SCALE)) / total) / RATIO_SCALE;
+}
+
+/**
+ * Gini coefficient of a list of balances sorted in ascending order
+ */
+function gini(sorted: bigint[]): number {
+  const count = BigInt(sorted.length);
+  let total = BigInt(0);
+  let weighted = BigInt(0);
+
+  sorted.forEach((value, index) => {
+    total += value;
+    weighted += BigInt(index + 1) * value;
+  });
+
+  if (total === BigInt(0)) {
+    return 0;
+  }
+
+  // G = 2 * sum(i * x_i) / (n * sum(x)) - (n + 1) / n
+  return (
+    ratio(BigInt(2) * weighted, count * total) - ratio(count + BigInt(1), count)
+  );
+}
 
 /**
  * Tokens module for the Etherscan API
@@ -19,12 +72,31 @@ import { Tokens, APIResponse } from '../types';
  * ```
  */
 export class TokensModule extends BaseModule {
+  private readonly blocks: BlocksModule;
+  private readonly accounts: _AccountsModule;
+
+  /**
+   * @param {HttpClient} httpClient - Client the requests are sent with
+   * @param {BlocksModule} blocks - Blocks module shared with the accounts module
+   * @param {_AccountsModule} accounts - Accounts module of the client, used for native balances
+   */
+  constructor(
+    httpClient: HttpClient,
+    blocks: BlocksModule = new BlocksModule(httpClient),
+    accounts: _AccountsModule = new _AccountsModule(httpClient, blocks)
+  ) {
+    super(httpClient);
+    this.blocks = blocks;
+    this.accounts = accounts;
+  }
+
   /**
    * Get ERC20 token account balance for token contract address
    * @param {Object} params - Token balance request parameters
    * @param {string} params.contractAddress - ERC20 token contract address
    * @param {string} params.address - Account address to check balance for
    * @param {string} [params.tag='latest'] - Block tag (latest, earliest, pending, or block number)
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Token balance in base units (wei)
    * @throws {EtherscanValidationError} if contract or account address is invalid
    * @example
@@ -38,7 +110,8 @@ export class TokensModule extends BaseModule {
    * ```
    */
   public async getTokenBalance(
-    params: Tokens.TokenBalanceRequest
+    params: Tokens.TokenBalanceRequest,
+    options?: RequestOptions
   ): Promise<string> {
     // Validate required parameters
     this.validateRequired(params, ['contractAddress', 'address']);
@@ -53,15 +126,111 @@ export class TokensModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
 
+  /**
+   * Get ERC20 token account balance for token contract address at a past block
+   * @param {Object} params - Token balance history request parameters
+   * @param {string} params.contractAddress - ERC20 token contract address
+   * @param {string} params.address - Account address to check balance for
+   * @param {number} params.blockno - Block number to read the balance at
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<string>} Token balance in base units (wei) at the given block
+   * @throws {EtherscanValidationError} if contract address, account address or block number is invalid
+   * @example
+   * ```ts
+   * const balance = await tokensModule.getTokenBalanceHistory({
+   *   contractAddress: '0x123...abc', // ERC20 token contract
+   *   address: '0x456...def', // Account address
+   *   blockno: 8000000
+   * });
+   * console.log(balance); // '1000000000000000000' (1 token with 18 decimals)
+   * ```
+   */
+  public async getTokenBalanceHistory(
+    params: Tokens.TokenBalanceHistoryRequest,
+    options?: RequestOptions
+  ): Promise<string> {
+    // Validate required parameters
+    this.validateRequired(params, ['contractAddress', 'address', 'blockno']);
+    this.validateAddress(params.contractAddress);
+    this.validateAddress(params.address);
+    this.validateBlockNumber(params.blockno);
+
+    const apiParams = this.createParams('account', 'tokenbalancehistory', {
+      contractaddress: params.contractAddress,
+      address: params.address,
+      blockno: params.blockno,
+    });
+
+    const response = await this.httpClient.get<APIResponse<string>>(
+      '',
+      apiParams,
+      options
+    );
+    return response.result;
+  }
+
+  /**
+   * Get ERC20 token account balance at a point in time. The block is resolved
+   * with `blocks.getBlockNumberByTimestamp` before the balance is read.
+   * @param {Object} params - Token balance request parameters
+   * @param {string} params.contractAddress - ERC20 token contract address
+   * @param {string} params.address - Account address to check balance for
+   * @param {Date} params.date - Point in time to read the balance at
+   * @param {'before'|'after'} [params.closest='before'] - Use the last block before the date or the first block after it
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Tokens.TokenBalanceAtResponse>} The resolved block number and the token balance at that block
+   * @throws {EtherscanValidationError} if contract address, account address or date is invalid
+   * @example
+   * ```ts
+   * const { blockNumber, balance } = await tokensModule.getTokenBalanceAt({
+   *   contractAddress: '0x123...abc',
+   *   address: '0x456...def',
+   *   date: new Date('2024-01-31T23:59:59Z')
+   * });
+   * console.log(blockNumber); // 19127542
+   * console.log(balance); // '1000000000000000000'
+   * ```
+   */
+  public async getTokenBalanceAt(
+    params: Tokens.TokenBalanceAtRequest,
+    options?: RequestOptions
+  ): Promise<Tokens.TokenBalanceAtResponse> {
+    // Validate required parameters
+    this.validateRequired(params, ['contractAddress', 'address', 'date']);
+    this.validateAddress(params.contractAddress);
+    this.validateAddress(params.address);
+    this.validateDate(params.date);
+
+    const blockNumber = Number(
+      await this.blocks.getBlockNumberByTimestamp(
+        Math.floor(params.date.getTime() / 1000),
+        params.closest,
+        { ...options, normalize: false }
+      )
+    );
+
+    const balance = await this.getTokenBalanceHistory(
+      {
+        contractAddress: params.contractAddress,
+        address: params.address,
+        blockno: blockNumber,
+      },
+      options
+    );
+    return { blockNumber, balance };
+  }
+
   /**
    * Get ERC20 token total supply for token contract address
    * @param {Object} params - Token supply request parameters
    * @param {string} params.contractAddress - ERC20 token contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Total token supply in base units (wei)
    * @throws {EtherscanValidationError} if contract address is invalid
    * @example
@@ -73,7 +242,8 @@ export class TokensModule extends BaseModule {
    * ```
    */
   public async getTokenSupply(
-    params: Tokens.TokenSupplyRequest
+    params: Tokens.TokenSupplyRequest,
+    options?: RequestOptions
   ): Promise<string> {
     // Validate required parameters
     this.validateRequired(params, ['contractAddress']);
@@ -85,7 +255,47 @@ export class TokensModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<string>>(
       '',
-      apiParams
+      apiParams,
+      options
+    );
+    return response.result;
+  }
+
+  /**
+   * Get ERC20 token total supply for token contract address at a past block
+   * @param {Object} params - Token supply history request parameters
+   * @param {string} params.contractAddress - ERC20 token contract address
+   * @param {number} params.blockno - Block number to read the supply at
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<string>} Total token supply in base units (wei) at the given block
+   * @throws {EtherscanValidationError} if contract address or block number is invalid
+   * @example
+   * ```ts
+   * const supply = await tokensModule.getTokenSupplyHistory({
+   *   contractAddress: '0x123...abc',
+   *   blockno: 8000000
+   * });
+   * console.log(supply); // '1000000000000000000000' (1000 tokens with 18 decimals)
+   * ```
+   */
+  public async getTokenSupplyHistory(
+    params: Tokens.TokenSupplyHistoryRequest,
+    options?: RequestOptions
+  ): Promise<string> {
+    // Validate required parameters
+    this.validateRequired(params, ['contractAddress', 'blockno']);
+    this.validateAddress(params.contractAddress);
+    this.validateBlockNumber(params.blockno);
+
+    const apiParams = this.createParams('stats', 'tokensupplyhistory', {
+      contractaddress: params.contractAddress,
+      blockno: params.blockno,
+    });
+
+    const response = await this.httpClient.get<APIResponse<string>>(
+      '',
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -95,6 +305,7 @@ export class TokensModule extends BaseModule {
    * @param {string} contractAddress - ERC20 token contract address
    * @param {number} [page=1] - Page number for pagination
    * @param {number} [offset=10] - Number of records per page
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Tokens.TokenHolder[]>} List of token holders with their balances
    * @throws {EtherscanValidationError} if contract address is invalid
    * @example
@@ -104,14 +315,15 @@ export class TokensModule extends BaseModule {
    *   1,
    *   10
    * );
-   * console.log(holders[0].address); // '0x456...def'
-   * console.log(holders[0].value); // '1000000000000000000'
+   * console.log(holders[0].TokenHolderAddress); // '0x456...def'
+   * console.log(holders[0].TokenHolderQuantity); // '1000000000000000000'
    * ```
    */
   public async getTokenHolders(
     contractAddress: string,
     page: number = 1,
-    offset: number = 10
+    offset: number = 10,
+    options?: RequestOptions
   ): Promise<Tokens.TokenHolderResponse[]> {
     // Validate parameters
     this.validateAddress(contractAddress);
@@ -124,13 +336,176 @@ export class TokensModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Tokens.TokenHolderResponse[]>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
+  /**
+   * Iterate over every holder of an ERC20 token, fetching pages as they are consumed
+   * @param {string} contractAddress - ERC20 token contract address
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Tokens.TokenHolderResponse>} Every holder, page after page
+   * @throws {EtherscanValidationError} if contract address is invalid
+   * @example
+   * ```ts
+   * for await (const holder of tokensModule.iterateTokenHolders('0x123...abc')) {
+   *   console.log(holder.TokenHolderAddress, holder.TokenHolderQuantity);
+   * }
+   * ```
+   */
+  public iterateTokenHolders(
+    contractAddress: string,
+    options: IterateOptions = {}
+  ): AsyncIterable<Tokens.TokenHolderResponse> {
+    return this.iterate({}, options, (page, offset, requestOptions) =>
+      this.getTokenHolders(contractAddress, page, offset, requestOptions)
+    );
+  }
+
+  /**
+   * Get every holder of an ERC20 token with the part of the total supply it holds.
+   * The supply and every page of holders are fetched in parallel.
+   * @param {string} contractAddress - ERC20 token contract address
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {Promise<Tokens.TokenHolderShare[]>} Every holder, in the order returned by the API
+   * @throws {EtherscanValidationError} if contract address is invalid
+   * @throws {ResultWindowTooLargeError} if the token has more holders than the 10,000 a query can return
+   * @example
+   * ```ts
+   * const holders = await tokensModule.getAllTokenHolders('0x123...abc');
+   * console.log(holders[0].address); // '0x456...def'
+   * console.log(holders[0].value); // '1000000000000000000'
+   * console.log(holders[0].share); // 0.0125 (1.25% of the supply)
+   * ```
+   */
+  public async getAllTokenHolders(
+    contractAddress: string,
+    options: IterateOptions = {}
+  ): Promise<Tokens.TokenHolderShare[]> {
+    this.validateAddress(contractAddress);
+
+    const { totalSupply, holders, truncated } = await this.fetchHolders(
+      contractAddress,
+      options
+    );
+
+    if (truncated) {
+      throw new ResultWindowTooLargeError(
+        `More than ${MAX_RESULT_WINDOW} holders for token ${contractAddress}`
+      );
+    }
+
+    return holders.map((holder) => ({
+      address: holder.address,
+      value: String(holder.value),
+      share: ratio(holder.value, totalSupply),
+    }));
+  }
+
+  /**
+   * Get the largest holders of an ERC20 token and how concentrated its supply is.
+   * The metrics cover at most the 10,000 holders a single query can return,
+   * `truncated` tells when there were more.
+   * @param {string} contractAddress - ERC20 token contract address
+   * @param {number} [n=10] - Number of holders to return
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {Promise<Tokens.TopHoldersResponse>} Largest holders, their share of the supply, the top 10 share and the Gini coefficient
+   * @throws {EtherscanValidationError} if contract address or n is invalid
+   * @example
+   * ```ts
+   * const top = await tokensModule.getTopHolders('0x123...abc', 5);
+   * console.log(top.holders[0].share); // 0.21
+   * console.log(top.top10Share); // 0.64
+   * console.log(top.gini); // 0.93
+   * ```
+   */
+  public async getTopHolders(
+    contractAddress: string,
+    n: number = 10,
+    options: IterateOptions = {}
+  ): Promise<Tokens.TopHoldersResponse> {
+    this.validateAddress(contractAddress);
+
+    if (!Number.isInteger(n) || n < 1) {
+      throw new EtherscanValidationError(
+        `Invalid number of holders: ${n}. Must be a positive integer.`
+      );
+    }
+
+    const { totalSupply, holders, truncated } = await this.fetchHolders(
+      contractAddress,
+      options
+    );
+    const balances = holders.sort((a, b) =>
+      a.value < b.value ? 1 : a.value > b.value ? -1 : 0
+    );
+
+    const sum = (count: number) =>
+      balances
+        .slice(0, count)
+        .reduce((total, holder) => total + holder.value, BigInt(0));
+
+    return {
+      totalSupply: String(totalSupply),
+      holderCount: balances.length,
+      holders: balances.slice(0, n).map((holder) => ({
+        address: holder.address,
+        value: String(holder.value),
+        share: ratio(holder.value, totalSupply),
+      })),
+      topShare: ratio(sum(n), totalSupply),
+      top10Share: ratio(sum(10), totalSupply),
+      gini: gini(balances.map((holder) => holder.value).reverse()),
+      truncated,
+    };
+  }
+
+  /**
+   * Fetch the total supply and every holder of a token in parallel, amounts as
+   * bigints. `truncated` is set when the last page reached the result window.
+   */
+  private async fetchHolders(
+    contractAddress: string,
+    options: IterateOptions
+  ): Promise<{
+    totalSupply: bigint;
+    holders: Array<{ address: string; value: bigint }>;
+    truncated: boolean;
+  }> {
+    const { pageSize = DEFAULT_PAGE_SIZE, ...requestOptions } = options;
+
+    // Amounts are read from the raw responses, whatever the client `normalize` option
+    const [supply, holders] = await Promise.all([
+      this.getTokenSupply(
+        { contractAddress },
+        { ...requestOptions, normalize: false }
+      ),
+      collect(
+        this.iterateTokenHolders(contractAddress, {
+          ...options,
+          normalize: false,
+        })
+      ),
+    ]);
+
+    return {
+      totalSupply: BigInt(supply),
+      holders: holders.map((holder) => ({
+        address: holder.TokenHolderAddress,
+        value: BigInt(holder.TokenHolderQuantity),
+      })),
+      // Pagination stops on the first short page or at the result window
+      truncated:
+        holders.length > 0 &&
+        holders.length % pageSize === 0 &&
+        holders.length + pageSize > MAX_RESULT_WINDOW,
+    };
+  }
+
   /**
    * Get total number of token holders for ERC20 token contract address
    * @param {string} contractAddress - ERC20 token contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<number>} List of token holders with their balances
    * @throws {EtherscanValidationError} if contract address is invalid
    * @example
@@ -139,7 +514,10 @@ export class TokensModule extends BaseModule {
    * console.log(holders); // 12345
    * ```
    */
-  public async getTokenHoldersCount(contractAddress: string): Promise<number> {
+  public async getTokenHoldersCount(
+    contractAddress: string,
+    options?: RequestOptions
+  ): Promise<number> {
     // Validate parameters
     this.validateAddress(contractAddress);
 
@@ -149,7 +527,8 @@ export class TokensModule extends BaseModule {
 
     const response = await this.httpClient.get<APIResponse<number>>(
       '',
-      apiParams
+      apiParams,
+      options
     );
     return response.result;
   }
@@ -157,19 +536,21 @@ export class TokensModule extends BaseModule {
   /**
    * Get ERC20 token information by contract address
    * @param {string} contractAddress - ERC20 token contract address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Tokens.TokenInfo>} Token information including name, symbol, decimals, etc.
    * @throws {EtherscanValidationError} if contract address is invalid
    * @example
    * ```ts
    * const info = await tokensModule.getTokenInfo('0x123...abc');
-   * console.log(info.name); // 'My Token'
+   * console.log(info.tokenName); // 'My Token'
    * console.log(info.symbol); // 'MTK'
-   * console.log(info.decimals); // '18'
+   * console.log(info.divisor); // '18'
    * console.log(info.totalSupply); // '1000000000000000000000'
    * ```
    */
   public async getTokenInfo(
-    contractAddress: string
+    contractAddress: string,
+    options?: RequestOptions
   ): Promise<Tokens.TokenInfoResponse> {
     // Validate parameters
     this.validateAddress(contractAddress);
@@ -180,7 +561,276 @@ export class TokensModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Tokens.TokenInfoResponse[]>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result[0]; // API returns array with single object
   }
+
+  /**
+   * Get every ERC20 token held by an address, with its balance
+   * @param {Object} params - Address token balance request parameters
+   * @param {string} params.address - Account address to get holdings for
+   * @param {number} [params.page=1] - Page number for pagination
+   * @param {number} [params.offset=100] - Number of records per page
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Tokens.AddressTokenBalanceResponse[]>} Tokens held, quantities in base units
+   * @throws {EtherscanValidationError} if address is invalid
+   * @example
+   * ```ts
+   * const holdings = await tokensModule.getAddressTokenBalances({
+   *   address: '0x123...abc',
+   *   page: 1,
+   *   offset: 100
+   * });
+   * console.log(holdings[0].TokenSymbol); // 'USDC'
+   * console.log(holdings[0].TokenQuantity); // '1500000'
+   * console.log(holdings[0].TokenDivisor); // '6'
+   * ```
+   */
+  public async getAddressTokenBalances(
+    params: Tokens.AddressTokenBalanceRequest,
+    options?: RequestOptions
+  ): Promise<Tokens.AddressTokenBalanceResponse[]> {
+    // Validate required parameters
+    this.validateRequired(params, ['address']);
+    this.validateAddress(params.address);
+
+    const apiParams = this.createParams('account', 'addresstokenbalance', {
+      address: params.address,
+      page: params.page,
+      offset: params.offset,
+    });
+
+    const response = await this.httpClient.get<
+      APIResponse<Tokens.AddressTokenBalanceResponse[]>
+    >('', apiParams, options);
+    return response.result;
+  }
+
+  /**
+   * Iterate over every ERC20 token held by an address, fetching pages as they are consumed
+   * @param {Tokens.AddressTokenBalanceRequest} params - Same parameters as `getAddressTokenBalances`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Tokens.AddressTokenBalanceResponse>} Every token held, page after page
+   * @throws {EtherscanValidationError} if address is invalid
+   * @example
+   * ```ts
+   * for await (const token of tokensModule.iterateAddressTokenBalances({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(token.TokenSymbol, token.TokenQuantity);
+   * }
+   * ```
+   */
+  public iterateAddressTokenBalances(
+    params: Tokens.AddressTokenBalanceRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Tokens.AddressTokenBalanceResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getAddressTokenBalances({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Get every ERC721 collection held by an address, with the number of tokens held
+   * @param {Object} params - Address NFT balance request parameters
+   * @param {string} params.address - Account address to get holdings for
+   * @param {number} [params.page=1] - Page number for pagination
+   * @param {number} [params.offset=100] - Number of records per page
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Tokens.AddressNFTBalanceResponse[]>} Collections held
+   * @throws {EtherscanValidationError} if address is invalid
+   * @example
+   * ```ts
+   * const collections = await tokensModule.getAddressNFTBalances({
+   *   address: '0x123...abc'
+   * });
+   * console.log(collections[0].TokenName); // 'My Collection'
+   * console.log(collections[0].TokenQuantity); // '3'
+   * ```
+   */
+  public async getAddressNFTBalances(
+    params: Tokens.AddressTokenBalanceRequest,
+    options?: RequestOptions
+  ): Promise<Tokens.AddressNFTBalanceResponse[]> {
+    // Validate required parameters
+    this.validateRequired(params, ['address']);
+    this.validateAddress(params.address);
+
+    const apiParams = this.createParams('account', 'addresstokennftbalance', {
+      address: params.address,
+      page: params.page,
+      offset: params.offset,
+    });
+
+    const response = await this.httpClient.get<
+      APIResponse<Tokens.AddressNFTBalanceResponse[]>
+    >('', apiParams, options);
+    return response.result;
+  }
+
+  /**
+   * Iterate over every ERC721 collection held by an address, fetching pages as they are consumed
+   * @param {Tokens.AddressTokenBalanceRequest} params - Same parameters as `getAddressNFTBalances`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Tokens.AddressNFTBalanceResponse>} Every collection held, page after page
+   * @throws {EtherscanValidationError} if address is invalid
+   * @example
+   * ```ts
+   * for await (const collection of tokensModule.iterateAddressNFTBalances({
+   *   address: '0x123...abc'
+   * })) {
+   *   console.log(collection.TokenName, collection.TokenQuantity);
+   * }
+   * ```
+   */
+  public iterateAddressNFTBalances(
+    params: Tokens.AddressTokenBalanceRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Tokens.AddressNFTBalanceResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getAddressNFTBalances({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Get the ERC721 token ids of a collection held by an address
+   * @param {Object} params - Address NFT inventory request parameters
+   * @param {string} params.address - Account address to get holdings for
+   * @param {string} params.contractAddress - ERC721 collection contract address
+   * @param {number} [params.page=1] - Page number for pagination
+   * @param {number} [params.offset=100] - Number of records per page
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Tokens.AddressNFTInventoryResponse[]>} Tokens of the collection held
+   * @throws {EtherscanValidationError} if address or contract address is invalid
+   * @example
+   * ```ts
+   * const inventory = await tokensModule.getAddressNFTInventory({
+   *   address: '0x123...abc',
+   *   contractAddress: '0x456...def'
+   * });
+   * console.log(inventory[0].TokenId); // '1234'
+   * ```
+   */
+  public async getAddressNFTInventory(
+    params: Tokens.AddressNFTInventoryRequest,
+    options?: RequestOptions
+  ): Promise<Tokens.AddressNFTInventoryResponse[]> {
+    // Validate required parameters
+    this.validateRequired(params, ['address', 'contractAddress']);
+    this.validateAddress(params.address);
+    this.validateAddress(params.contractAddress);
+
+    const apiParams = this.createParams('account', 'addresstokennftinventory', {
+      address: params.address,
+      contractaddress: params.contractAddress,
+      page: params.page,
+      offset: params.offset,
+    });
+
+    const response = await this.httpClient.get<
+      APIResponse<Tokens.AddressNFTInventoryResponse[]>
+    >('', apiParams, options);
+    return response.result;
+  }
+
+  /**
+   * Iterate over every ERC721 token of a collection held by an address, fetching pages as they are consumed
+   * @param {Tokens.AddressNFTInventoryRequest} params - Same parameters as `getAddressNFTInventory`, `page` is the first page to fetch
+   * @param {IterateOptions} [options] - Page size and per-call options such as an abort signal or priority
+   * @returns {AsyncIterable<Tokens.AddressNFTInventoryResponse>} Every token held, page after page
+   * @throws {EtherscanValidationError} if address or contract address is invalid
+   * @example
+   * ```ts
+   * for await (const nft of tokensModule.iterateAddressNFTInventory({
+   *   address: '0x123...abc',
+   *   contractAddress: '0x456...def'
+   * })) {
+   *   console.log(nft.TokenId);
+   * }
+   * ```
+   */
+  public iterateAddressNFTInventory(
+    params: Tokens.AddressNFTInventoryRequest,
+    options: IterateOptions = {}
+  ): AsyncIterable<Tokens.AddressNFTInventoryResponse> {
+    return this.iterate(params, options, (page, offset, requestOptions) =>
+      this.getAddressNFTInventory({ ...params, page, offset }, requestOptions)
+    );
+  }
+
+  /**
+   * Get everything an address holds: the native balance, every ERC20 token
+   * and every ERC721 collection. The three lists are fetched in parallel and
+   * every page is read. Amounts are strings in base units, along with a
+   * decimals-aware `formatted` amount, whether or not responses are normalized.
+   * The native balance uses the decimals of the native currency of the chain.
+   * @param {string} address - Account address to get the portfolio of
+   * @param {IterateOptions} [options] - Page size of the token and NFT lists, and per-call options such as an abort signal or priority
+   * @returns {Promise<Tokens.PortfolioResponse>} Native balance, tokens and NFT collections held
+   * @throws {EtherscanValidationError} if address is invalid
+   * @example
+   * ```ts
+   * const portfolio = await tokensModule.getPortfolio('0x123...abc');
+   * console.log(portfolio.native.formatted); // '1.5'
+   * console.log(portfolio.tokens[0].symbol, portfolio.tokens[0].formatted); // 'USDC' '1500'
+   * console.log(portfolio.nfts[0].name, portfolio.nfts[0].quantity); // 'My Collection' 3
+   * ```
+   */
+  public async getPortfolio(
+    address: string,
+    options: IterateOptions = {}
+  ): Promise<Tokens.PortfolioResponse> {
+    this.validateAddress(address);
+
+    const { pageSize, ...requestOptions } = options;
+    const chainName = findChainName(this.httpClient.getChainId());
+    const nativeCurrency = chainName
+      ? getChainMetadata(chainName)?.nativeCurrency
+      : undefined;
+
+    const [balance, tokens, nfts] = await Promise.all([
+      this.accounts.getBalance(
+        { address },
+        { ...requestOptions, normalize: false }
+      ),
+      collect(
+        this.iterateAddressTokenBalances(
+          { address },
+          { ...requestOptions, pageSize, normalize: false }
+        )
+      ),
+      collect(
+        this.iterateAddressNFTBalances(
+          { address },
+          { ...requestOptions, pageSize, normalize: false }
+        )
+      ),
+    ]);
+
+    return {
+      address,
+      native: {
+        balance,
+        formatted: formatUnits(balance, nativeCurrency?.decimals),
+      },
+      tokens: tokens.map((token) => {
+        const decimals = Number(token.TokenDivisor) || 0;
+
+        return {
+          contractAddress: token.TokenAddress,
+          name: token.TokenName,
+          symbol: token.TokenSymbol,
+          decimals,
+          balance: token.TokenQuantity,
+          formatted: formatUnits(token.TokenQuantity, decimals),
+        };
+      }),
+      nfts: nfts.map((nft) => ({
+        contractAddress: nft.TokenAddress,
+        name: nft.TokenName,
+        symbol: nft.TokenSymbol,
+        quantity: Number(nft.TokenQuantity),
+      })),
+    };
+  }
 }
@@ -4,7 +4,7 @@
  */
 
 import { BaseModule } from './base';
-import { Transactions, APIResponse } from '../types';
+import { Transactions, APIResponse, RequestOptions } from '../types';
 
 /**
  * Transactions module for the Etherscan API
@@ -23,6 +23,7 @@ export class TransactionsModule extends BaseModule {
    * Check transaction execution status
    * @param {Object} params - Transaction status request parameters
    * @param {string} params.txhash - Transaction hash to check
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Transactions.StatusResponse>} Transaction execution status
    * @throws {EtherscanValidationError} if transaction hash is invalid
    * @example
@@ -35,7 +36,8 @@ export class TransactionsModule extends BaseModule {
    * ```
    */
   public async getStatus(
-    params: Transactions.StatusRequest
+    params: Transactions.StatusRequest,
+    options?: RequestOptions
   ): Promise<Transactions.StatusResponse> {
     // Validate required parameters
     this.validateRequired(params, ['txhash']);
@@ -47,7 +49,7 @@ export class TransactionsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Transactions.StatusResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 
@@ -55,6 +57,7 @@ export class TransactionsModule extends BaseModule {
    * Check transaction receipt status
    * @param {Object} params - Transaction receipt status request parameters
    * @param {string} params.txhash - Transaction hash to check
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Transactions.ReceiptStatusResponse>} Transaction receipt status
    * @throws {EtherscanValidationError} if transaction hash is invalid
    * @example
@@ -66,7 +69,8 @@ export class TransactionsModule extends BaseModule {
    * ```
    */
   public async getReceiptStatus(
-    params: Transactions.ReceiptStatusRequest
+    params: Transactions.ReceiptStatusRequest,
+    options?: RequestOptions
   ): Promise<Transactions.ReceiptStatusResponse> {
     // Validate required parameters
     this.validateRequired(params, ['txhash']);
@@ -78,7 +82,7 @@ export class TransactionsModule extends BaseModule {
 
     const response = await this.httpClient.get<
       APIResponse<Transactions.ReceiptStatusResponse>
-    >('', apiParams);
+    >('', apiParams, options);
     return response.result;
   }
 }
@@ -6,23 +6,39 @@
 
 import {
   EtherscanSDKOptions,
+  ApiProvider,
+  ChainMetadata,
+  ChainName,
   Network,
   EtherscanAPIError,
   EtherscanValidationError,
   EtherscanNetworkError,
   Version,
-  NetworkString,
+  Middleware,
+  RateLimitState,
+  CacheStore,
+  ApiKeyStats,
 } from './types';
 import { HttpClient } from './utils/http-client';
+import { MemoryCacheStore, createCacheMiddleware } from './utils/cache';
+import { createNormalizeMiddleware } from './utils/normalize';
+import { ExplorerLinks } from './utils/explorer';
+import {
+  findChainName,
+  getChainMetadata,
+  isSupportedChain,
+  resolveChainId,
+  resolveV1Url,
+} from './utils/chains';
 import {
   DEFAULT_TIMEOUT,
   DEFAULT_MAX_REQUESTS_PER_SECOND,
   DEFAULT_NETWORK,
   ERROR_MESSAGES,
-  V1_API_URLS,
   V2_API_URL,
-  V2_API_CHAIN_IDS,
-  SUPPORTED_CHAINS,
+  BLOCKSCOUT_API_URLS,
+  ROUTESCAN_API_URL,
+  RATE_LIMIT_PLANS,
 } from './constants';
 
 /**
@@ -47,15 +63,35 @@ import {
  * ```
  */
 export class EtherscanSDKBase {
-  /** API key for Etherscan */
-  protected readonly apiKey: string;
   /** HTTP client for making API requests */
-  protected httpClient: HttpClient;
+  protected readonly httpClient: HttpClient;
+
+  /**
+   * Links to the explorer web pages of the current network
+   * @readonly
+   * @example
+   * ```ts
+   * const sdk = new EtherscanSDK({ apiKey: 'your_api_key', network: 'avax-mainnet' });
+   * sdk.explorer.txUrl('0x123...abc'); // 'https://snowscan.xyz/tx/0x123...abc'
+   * sdk.explorer.addressUrl('0x123...abc');
+   * sdk.explorer.tokenUrl('0x456...def', '0x123...abc');
+   * sdk.explorer.blockUrl(1000000);
+   * ```
+   */
+  public readonly explorer: ExplorerLinks;
 
+  /** Options the SDK was created with, reused for other chains */
+  protected readonly options: EtherscanSDKOptions;
   /** Network to use (e.g., 'mainnet', 'testnet', etc.) */
-  private readonly network: Network | NetworkString;
+  private readonly network: ChainName;
+  /** Chain id of the network, empty for explorers without one */
+  private readonly chainId: string;
   /** API version to use ('v1' or 'v2') */
   private readonly version: Version;
+  /** Backend serving the API */
+  private readonly provider: ApiProvider;
+  /** Store backing the response cache, if caching is enabled */
+  private readonly cacheStore?: CacheStore;
 
   /**
    * API error class for handling API-related errors
@@ -114,8 +150,10 @@ export class EtherscanSDKBase {
   /**
    * Initialize the SDK with configuration options
    * @param {EtherscanSDKOptions} options - SDK configuration options
-   * @throws {EtherscanValidationError} if API key is missing
+   * @param {EtherscanSDKBase} [parent] - Client whose API keys, rate limits, cache and middleware are shared
+   * @throws {EtherscanValidationError} if API key is missing and the provider is Etherscan
    * @throws {EtherscanValidationError} if network is invalid
+   * @throws {EtherscanValidationError} if the network has no API URL for the version or provider
    * @example
    * ```ts
    * const sdk = new EtherscanSDK({
@@ -128,41 +166,110 @@ export class EtherscanSDKBase {
    * });
    * ```
    */
-  constructor(options: EtherscanSDKOptions) {
-    // Validate API key
-    if (!options.apiKey) {
+  constructor(options: EtherscanSDKOptions, parent?: EtherscanSDKBase) {
+    this.provider = options.provider || 'etherscan';
+
+    // Validate API key, Blockscout and Routescan also work without one
+    if (
+      (!options.apiKey && this.provider === 'etherscan') ||
+      (Array.isArray(options.apiKey) &&
+        (options.apiKey.length === 0 || options.apiKey.some((key) => !key)))
+    ) {
       throw new EtherscanValidationError(ERROR_MESSAGES.MISSING_API_KEY);
     }
 
-    this.apiKey = options.apiKey;
-    this.network = options.network || DEFAULT_NETWORK;
+    const chainId =
+      options.chainId !== undefined ? String(options.chainId) : undefined;
+
+    // A chain id or base URL may point at a chain without a network name
+    this.network =
+      options.network ||
+      (chainId && findChainName(chainId)) ||
+      chainId ||
+      DEFAULT_NETWORK;
 
     // Validate network
-    if (!SUPPORTED_CHAINS.includes(this.network)) {
+    if (
+      chainId === undefined &&
+      !options.baseUrl &&
+      !isSupportedChain(this.network)
+    ) {
       throw new EtherscanValidationError(ERROR_MESSAGES.INVALID_NETWORK);
     }
 
+    if (chainId !== undefined && !/^\d+$/.test(chainId)) {
+      throw new EtherscanValidationError(
+        `Invalid chain id: ${chainId}. Must be a positive integer.`
+      );
+    }
+
+    this.chainId = chainId ?? resolveChainId(this.network) ?? '';
     this.version = options.version || 'v2';
+    this.options = options;
+    this.explorer = new ExplorerLinks(
+      getChainMetadata(this.network)?.explorerUrl,
+      String(this.network)
+    );
+
+    const baseUrl = options.baseUrl || this.resolveAPIURL(this.network);
+
+    // Share the parent pipeline, only the chain changes
+    if (parent) {
+      this.httpClient = parent.httpClient.forChain(baseUrl, this.chainId);
+      this.cacheStore = parent.cacheStore;
+      return;
+    }
 
     // Initialize HTTP client
     this.httpClient = new HttpClient({
-      baseUrl: this.resolveAPIURL(this.network),
+      baseUrl,
+      chainId: this.chainId,
+      apiKey: options.apiKey,
+      apiKeyStrategy: options.apiKeyStrategy,
       timeout: options.timeout || DEFAULT_TIMEOUT,
+      retry: options.retry,
+      transport: options.transport,
+      dedupe: options.dedupeRequests,
+      throwOnNotFound: options.throwOnNotFound,
+      validateResponses: options.validateResponses,
+      provider: this.provider,
     });
 
-    // Configure rate limiting
-    if (options.rateLimitEnabled !== undefined) {
-      this.httpClient.setRateLimit(
-        options.rateLimitEnabled,
-        options.maxRequestsPerSecond || DEFAULT_MAX_REQUESTS_PER_SECOND
+    // Configure rate limiting, the daily quota only applies when a plan or limit is given
+    const plan = options.plan ? RATE_LIMIT_PLANS[options.plan] : undefined;
+
+    this.httpClient.setRateLimit(options.rateLimitEnabled !== false, {
+      requestsPerSecond:
+        options.maxRequestsPerSecond ||
+        plan?.requestsPerSecond ||
+        DEFAULT_MAX_REQUESTS_PER_SECOND,
+      requestsPerDay: options.maxRequestsPerDay || plan?.requestsPerDay,
+      maxQueueLength: options.maxQueueLength,
+    });
+
+    // Normalize first so the cache and user middleware keep the raw responses
+    if (options.normalize) {
+      this.httpClient.use(createNormalizeMiddleware());
+    }
+
+    // Configure response caching
+    if (options.cache) {
+      const cacheOptions = options.cache === true ? {} : options.cache;
+
+      this.cacheStore =
+        cacheOptions.store || new MemoryCacheStore(cacheOptions.maxEntries);
+      // Inside the user middleware, so they also see cached responses
+      this.httpClient.useInner(
+        createCacheMiddleware(cacheOptions, this.cacheStore)
       );
     }
   }
 
   /**
-   * Resolve the API URL for the given network
-   * @param {Network | NetworkString} network - The network to resolve the API URL for
+   * Resolve the API URL for the given network and provider
+   * @param {ChainName} network - The network to resolve the API URL for
    * @returns {string} The API URL
+   * @throws {EtherscanValidationError} if the network has no API URL for the version or provider
    * @private
    * @example
    * ```ts
@@ -171,29 +278,145 @@ export class EtherscanSDKBase {
    * // Returns: 'https://api.etherscan.io/v2/api?chainid=1' for v2
    * ```
    */
-  private resolveAPIURL(network: Network | NetworkString): string {
-    if (this.version === 'v1') {
-      return V1_API_URLS[network];
+  private resolveAPIURL(network: ChainName): string {
+    if (this.provider === 'blockscout') {
+      const url = BLOCKSCOUT_API_URLS[network as Network];
+
+      if (!url) {
+        throw new EtherscanValidationError(
+          `No Blockscout API URL for ${network}, pass the baseUrl of its Blockscout instance`
+        );
+      }
+
+      return url;
     }
 
-    const chainId = V2_API_CHAIN_IDS[network];
+    if (this.provider === 'routescan') {
+      const environment = getChainMetadata(network)?.isTestnet
+        ? 'testnet'
+        : 'mainnet';
+
+      return `${ROUTESCAN_API_URL}/${environment}/evm/${this.chainId}/etherscan/api`;
+    }
+
+    if (this.version === 'v1') {
+      const url = resolveV1Url(network);
+
+      if (!url) {
+        throw new EtherscanValidationError(
+          `No V1 API URL for ${network}, use version 'v2' or pass a baseUrl`
+        );
+      }
 
-    return `${V2_API_URL}?chainid=${chainId}`;
+      return url;
+    }
+
+    return `${V2_API_URL}?chainid=${this.chainId}`;
   }
 
   /**
    * Get the current network configuration
-   * @returns {Network | NetworkString} The current network
+   * @returns {ChainName} The current network
    * @example
    * ```ts
    * const network = sdk.getNetwork();
    * console.log(network); // 'mainnet'
    * ```
    */
-  public getNetwork(): Network | NetworkString {
+  public getNetwork(): ChainName {
     return this.network;
   }
 
+  /**
+   * Get the display name, native currency, explorer URL and capabilities of the current network
+   * @returns {ChainMetadata | undefined} The metadata, `undefined` for chains only known by id or base URL
+   * @example
+   * ```ts
+   * const sdk = new EtherscanSDK({ apiKey: 'your_api_key', network: 'polygon-mainnet' });
+   * const metadata = sdk.getChainMetadata();
+   * console.log(metadata?.nativeCurrency.symbol); // 'POL'
+   * ```
+   */
+  public getChainMetadata(): ChainMetadata | undefined {
+    return getChainMetadata(this.network);
+  }
+
+  /**
+   * Get the chain id requests are made against
+   * @returns {string} The chain id, empty for explorers without one
+   * @example
+   * ```ts
+   * const sdk = new EtherscanSDK({ apiKey: 'your_api_key', network: 'base-mainnet' });
+   * console.log(sdk.getChainId()); // '8453'
+   * ```
+   */
+  public getChainId(): string {
+    return this.chainId;
+  }
+
+  /**
+   * Add a middleware to the request pipeline. Middleware run in the order they
+   * are added and see every request made by every module.
+   * @param {Middleware} middleware - The middleware to add
+   * @returns {this} The SDK instance, for chaining
+   * @example
+   * ```ts
+   * sdk.use(async (context, next) => {
+   *   const start = Date.now();
+   *   const response = await next();
+   *   console.log(`${context.module}.${context.action} took ${Date.now() - start}ms`);
+   *   return response;
+   * });
+   * ```
+   */
+  public use(middleware: Middleware): this {
+    this.httpClient.use(middleware);
+    return this;
+  }
+
+  /**
+   * Get the current rate limiter state
+   * @returns {RateLimitState} Tokens remaining, queue depth and daily usage
+   * @example
+   * ```ts
+   * const state = sdk.getRateLimitState();
+   * console.log(state.tokensRemaining); // 5
+   * console.log(state.queueDepth); // 0
+   * console.log(state.dailyUsage); // 1234
+   * ```
+   */
+  public getRateLimitState(): RateLimitState {
+    return this.httpClient.getRateLimitState();
+  }
+
+  /**
+   * Get usage statistics for every API key. Keys are masked.
+   * @returns {ApiKeyStats[]} Requests, errors, daily usage and quarantine status per key
+   * @example
+   * ```ts
+   * const sdk = new EtherscanSDK({ apiKey: ['key_1', 'key_2'] });
+   * const [first] = sdk.getApiKeyStats();
+   * console.log(first.requests); // 42
+   * console.log(first.quarantined); // false
+   * ```
+   */
+  public getApiKeyStats(): ApiKeyStats[] {
+    return this.httpClient.getApiKeyStats();
+  }
+
+  /**
+   * Remove all cached responses. Does nothing if caching is disabled.
+   * @example
+   * ```ts
+   * await sdk.clearCache();
+   * ```
+   */
+  public async clearCache(): Promise<void> {
+    if (this.cacheStore) {
+      await this.cacheStore.clear();
+    }
+  }
+
   /**
    * Set the request timeout for all API calls
    * @param {number} timeout - The timeout in milliseconds
@@ -208,9 +431,7 @@ export class EtherscanSDKBase {
       throw new EtherscanValidationError('Timeout must be a positive integer');
     }
 
-    this.httpClient = new HttpClient({
-      baseUrl: this.resolveAPIURL(this.network),
-      timeout,
-    });
+    // Update the existing client so rate limits, keys and middleware are kept
+    this.httpClient.setTimeout(timeout);
   }
 }
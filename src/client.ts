@@ -9,6 +9,17 @@ import {
   EtherscanAPIError,
   EtherscanValidationError,
   EtherscanNetworkError,
+  ChainResult,
+  ChainResults,
+  ChainName,
+  NormalizedModule,
+  AccountsParsedResults,
+  BlocksParsedResults,
+  LogsParsedResults,
+  ProxyParsedResults,
+  TokensParsedResults,
+  GasParsedResults,
+  StatsParsedResults,
 } from './types';
 import { _AccountsModule } from './_modules/accounts';
 import { ContractsModule } from './_modules/contracts';
@@ -21,6 +32,57 @@ import { GasModule } from './_modules/gas';
 import { StatsModule } from './_modules/stats';
 import { EtherscanSDKBase } from './baseClient';
 
+/**
+ * Modules available on every chain of `onChains()`
+ */
+const MULTI_CHAIN_MODULES = [
+  'accounts',
+  'contracts',
+  'transactions',
+  'blocks',
+  'logs',
+  'proxy',
+  'tokens',
+  'gas',
+  'stats',
+] as const;
+
+type MultiChainModule = (typeof MULTI_CHAIN_MODULES)[number];
+
+/**
+ * Module whose async methods run on several chains and resolve to per-chain results
+ */
+export type MultiChainModuleMethods<M, N extends string> = {
+  [K in keyof M as M[K] extends (...args: any[]) => Promise<any>
+    ? K
+    : never]: M[K] extends (...args: infer A) => Promise<infer R>
+    ? (...args: A) => Promise<ChainResults<N, R>>
+    : never;
+};
+
+/**
+ * Modules returned by `onChains()`
+ */
+export type MultiChainSDK<
+  N extends string,
+  Normalized extends boolean = false
+> = {
+  [K in MultiChainModule]: MultiChainModuleMethods<
+    EtherscanSDK<Normalized>[K],
+    N
+  >;
+};
+
+/**
+ * Type a module for the `normalize` option of the client, the values
+ * themselves are converted by the normalize middleware
+ */
+function normalized<M, P, N extends boolean>(
+  module: M
+): NormalizedModule<M, P, N> {
+  return module as NormalizedModule<M, P, N>;
+}
+
 /**
  * Main Etherscan SDK class that provides access to all Etherscan API endpoints
  * @class EtherscanSDK
@@ -40,9 +102,17 @@ import { EtherscanSDKBase } from './baseClient';
  * const balance = await sdk.accounts.getBalance({
  *   address: '0x123...abc'
  * });
+ *
+ * // With `normalize: true` the return types are the parsed ones
+ * const parsed = new EtherscanSDK({ apiKey: 'your_api_key', normalize: true });
+ * const wei: bigint = await parsed.accounts.getBalance({
+ *   address: '0x123...abc'
+ * });
  * ```
  */
-export class EtherscanSDK extends EtherscanSDKBase {
+export class EtherscanSDK<
+  Normalized extends boolean = false
+> extends EtherscanSDKBase {
   /**
    * Account module instance for accessing account-related endpoints
    * @readonly
@@ -59,7 +129,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * });
    * ```
    */
-  public readonly accounts: _AccountsModule;
+  public readonly accounts: NormalizedModule<
+    _AccountsModule,
+    AccountsParsedResults,
+    Normalized
+  >;
 
   /**
    * Contracts module instance for accessing contract-related endpoints
@@ -113,7 +187,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * });
    * ```
    */
-  public readonly blocks: BlocksModule;
+  public readonly blocks: NormalizedModule<
+    BlocksModule,
+    BlocksParsedResults,
+    Normalized
+  >;
 
   /**
    * Logs module instance for accessing log-related endpoints
@@ -129,7 +207,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * });
    * ```
    */
-  public readonly logs: LogsModule;
+  public readonly logs: NormalizedModule<
+    LogsModule,
+    LogsParsedResults,
+    Normalized
+  >;
 
   /**
    * Proxy module instance for accessing proxy-related endpoints
@@ -143,7 +225,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * const tx = await sdk.proxy.getTransactionByHash('0x123...abc');
    * ```
    */
-  public readonly proxy: ProxyModule;
+  public readonly proxy: NormalizedModule<
+    ProxyModule,
+    ProxyParsedResults,
+    Normalized
+  >;
 
   /**
    * Tokens module instance for accessing token-related endpoints
@@ -162,7 +248,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * });
    * ```
    */
-  public readonly tokens: TokensModule;
+  public readonly tokens: NormalizedModule<
+    TokensModule,
+    TokensParsedResults,
+    Normalized
+  >;
 
   /**
    * Gas module instance for accessing gas-related endpoints
@@ -176,7 +266,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * const gasOracle = await sdk.gas.getGasOracle();
    * ```
    */
-  public readonly gas: GasModule;
+  public readonly gas: NormalizedModule<
+    GasModule,
+    GasParsedResults,
+    Normalized
+  >;
 
   /**
    * Stats module instance for accessing statistics-related endpoints
@@ -190,7 +284,11 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * const ethSupply = await sdk.stats.getEthSupply();
    * ```
    */
-  public readonly stats: StatsModule;
+  public readonly stats: NormalizedModule<
+    StatsModule,
+    StatsParsedResults,
+    Normalized
+  >;
 
   /**
    * API error class for handling API-related errors
@@ -246,9 +344,15 @@ export class EtherscanSDK extends EtherscanSDKBase {
    */
   public static readonly NetworkError = EtherscanNetworkError;
 
+  /** Clients for other chains created by `chain()` */
+  private readonly chains = new Map<string, EtherscanSDK<Normalized>>();
+
+  protected declare readonly options: EtherscanSDKOptions<Normalized>;
+
   /**
    * Initialize the SDK with configuration options
    * @param {EtherscanSDKOptions} options - SDK configuration options
+   * @param {EtherscanSDK} [parent] - Client whose API keys, rate limits, cache and middleware are shared
    * @throws {EtherscanValidationError} if API key is missing
    * @throws {EtherscanValidationError} if network is invalid
    * @example
@@ -263,18 +367,134 @@ export class EtherscanSDK extends EtherscanSDKBase {
    * });
    * ```
    */
-  constructor(options: EtherscanSDKOptions) {
-    super(options);
+  constructor(
+    options: EtherscanSDKOptions<Normalized>,
+    parent?: EtherscanSDK<Normalized>
+  ) {
+    super(options, parent);
 
     // Initialize modules
-    this.accounts = new _AccountsModule(this.httpClient, this.apiKey);
-    this.contracts = new ContractsModule(this.httpClient, this.apiKey);
-    this.transactions = new TransactionsModule(this.httpClient, this.apiKey);
-    this.blocks = new BlocksModule(this.httpClient, this.apiKey);
-    this.logs = new LogsModule(this.httpClient, this.apiKey);
-    this.proxy = new ProxyModule(this.httpClient, this.apiKey);
-    this.tokens = new TokensModule(this.httpClient, this.apiKey);
-    this.gas = new GasModule(this.httpClient, this.apiKey);
-    this.stats = new StatsModule(this.httpClient, this.apiKey);
+    // The composite methods of accounts and tokens use the same blocks module
+    const blocks = new BlocksModule(this.httpClient);
+    const accounts = new _AccountsModule(this.httpClient, blocks);
+
+    this.accounts = normalized(accounts);
+    this.contracts = new ContractsModule(this.httpClient);
+    this.transactions = new TransactionsModule(this.httpClient);
+    this.blocks = normalized(blocks);
+    this.logs = normalized(new LogsModule(this.httpClient));
+    this.proxy = normalized(new ProxyModule(this.httpClient));
+    this.tokens = normalized(
+      new TokensModule(this.httpClient, blocks, accounts)
+    );
+    this.gas = normalized(new GasModule(this.httpClient));
+    this.stats = normalized(new StatsModule(this.httpClient));
+  }
+
+  /**
+   * Get a client for another network. It shares the API keys, rate limiters,
+   * cache and middleware of this client, so one V2 key covers every chain.
+   * @param {ChainName} network - The network to query, built in or registered
+   * @returns {EtherscanSDK} The client for the network
+   * @throws {EtherscanValidationError} if network is invalid
+   * @example
+   * ```ts
+   * const balance = await sdk.chain('base-mainnet').accounts.getBalance({
+   *   address: '0x123...abc'
+   * });
+   * ```
+   */
+  public chain(network: ChainName): EtherscanSDK<Normalized> {
+    if (network === this.getNetwork()) {
+      return this;
+    }
+
+    let client = this.chains.get(network);
+
+    if (!client) {
+      client = new EtherscanSDK<Normalized>(
+        { ...this.options, network, chainId: undefined, baseUrl: undefined },
+        this
+      );
+      this.chains.set(network, client);
+    }
+
+    return client;
+  }
+
+  /**
+   * Run the same call on several networks. A failure on one network does not
+   * fail the others, each network gets its own result or error.
+   * @param {ChainName[]} networks - The networks to query
+   * @returns {MultiChainSDK} Modules whose methods resolve to results keyed on network
+   * @throws {EtherscanValidationError} if a network is invalid
+   * @example
+   * ```ts
+   * const balances = await sdk
+   *   .onChains(['eth-mainnet', 'arb-mainnet', 'base-mainnet'])
+   *   .accounts.getBalance({ address: '0x123...abc' });
+   *
+   * for (const [network, result] of Object.entries(balances)) {
+   *   if (result.status === 'fulfilled') {
+   *     console.log(network, result.value);
+   *   } else {
+   *     console.error(network, result.reason.message);
+   *   }
+   * }
+   * ```
+   */
+  public onChains<N extends ChainName>(
+    networks: N[]
+  ): MultiChainSDK<N, Normalized> {
+    const clients = networks.map(
+      (network) => [network, this.chain(network)] as const
+    );
+
+    const call = async (
+      module: MultiChainModule,
+      method: string,
+      args: unknown[]
+    ): Promise<ChainResults<N, unknown>> => {
+      const settled = await Promise.all(
+        clients.map(async ([network, client]) => {
+          const methods = client[module] as unknown as Record<
+            string,
+            (...args: unknown[]) => Promise<unknown>
+          >;
+
+          try {
+            const value = await methods[method](...args);
+            return [network, { status: 'fulfilled', value }] as const;
+          } catch (reason) {
+            return [network, { status: 'rejected', reason }] as const;
+          }
+        })
+      );
+
+      return settled.reduce((results, [network, result]) => {
+        results[network] = result as ChainResult<unknown>;
+        return results;
+      }, {} as ChainResults<N, unknown>);
+    };
+
+    // Not thenable and no symbol keys, so the modules can be awaited and inspected
+    const fanOut = <M extends MultiChainModule>(module: M) =>
+      new Proxy({} as MultiChainSDK<N, Normalized>[M], {
+        get: (_, method) =>
+          typeof method === 'symbol' || method === 'then'
+            ? undefined
+            : (...args: unknown[]) => call(module, method, args),
+      });
+
+    return MULTI_CHAIN_MODULES.reduce(
+      <M extends MultiChainModule>(
+        modules: MultiChainSDK<N, Normalized>,
+        module: M
+      ) => {
+        modules[module] = fanOut(module);
+        return modules;
+      },
+      {} as MultiChainSDK<N, Normalized>
+    );
   }
 }
@@ -2,7 +2,15 @@
  * Constants for the Etherscan API
  */
 
-import { Network, NetworkString } from './types';
+import {
+  ChainMetadata,
+  EtherscanNetworkError,
+  NativeCurrency,
+  Network,
+  NetworkString,
+  RateLimitPlan,
+  RetryOptions,
+} from './types';
 
 /**
  * Base API URLs for different Ethereum networks
@@ -77,6 +85,32 @@ export const V1_API_URLS: Record<Network, string> = {
  */
 export const V2_API_URL = 'https://api.etherscan.io/v2/api';
 
+/**
+ * Etherscan-compatible API URLs of the Blockscout instances of the built-in networks
+ */
+export const BLOCKSCOUT_API_URLS: Partial<Record<Network, string>> = {
+  [Network.ETH_MAINNET]: 'https://eth.blockscout.com/api',
+  [Network.ETH_SEPOLIA]: 'https://eth-sepolia.blockscout.com/api',
+  [Network.ETH_HOLESKY]: 'https://eth-holesky.blockscout.com/api',
+  [Network.ARB_MAINNET]: 'https://arbitrum.blockscout.com/api',
+  [Network.ARBITRUM_NOVA]: 'https://arbitrum-nova.blockscout.com/api',
+  [Network.BASE_MAINNET]: 'https://base.blockscout.com/api',
+  [Network.BASE_SEPOLIA]: 'https://base-sepolia.blockscout.com/api',
+  [Network.CELO_MAINNET]: 'https://celo.blockscout.com/api',
+  [Network.GNOSIS_MAINNET]: 'https://gnosis.blockscout.com/api',
+  [Network.OPT_MAINNET]: 'https://optimism.blockscout.com/api',
+  [Network.OPT_SEPOLIA]: 'https://optimism-sepolia.blockscout.com/api',
+  [Network.MATIC_MAINNET]: 'https://polygon.blockscout.com/api',
+  [Network.POLYGONZKEVM_MAINNET]: 'https://zkevm.blockscout.com/api',
+  [Network.UNICHAIN_MAINNET]: 'https://unichain.blockscout.com/api',
+  [Network.ZKSYNC_MAINNET]: 'https://zksync.blockscout.com/api',
+};
+
+/**
+ * Routescan API URL, followed by `/{mainnet|testnet}/evm/{chainId}/etherscan/api`
+ */
+export const ROUTESCAN_API_URL = 'https://api.routescan.io/v2/network';
+
 /**
  * V2 API Chain IDs for different Ethereum networks
  */
@@ -144,6 +178,570 @@ export const V2_API_CHAIN_IDS: Record<Network, string> = {
   [Network.ZKSYNC_SEPOLIA]: '300',
 };
 
+/**
+ * Native currency with 18 decimals
+ */
+function native(name: string, symbol: string): NativeCurrency {
+  return { name, symbol, decimals: 18 };
+}
+
+const ETHER = native('Ether', 'ETH');
+
+/**
+ * Display name, native currency, explorer and capabilities of every built-in network
+ */
+export const CHAIN_METADATA: Record<Network, ChainMetadata> = {
+  [Network.ETH_MAINNET]: {
+    name: 'Ethereum Mainnet',
+    chainId: 1,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://etherscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ETH_GOERLI]: {
+    name: 'Ethereum Goerli',
+    chainId: 5,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://goerli.etherscan.io',
+    isTestnet: true,
+    isDeprecated: true,
+    supportsEip1559: true,
+  },
+  [Network.ETH_SEPOLIA]: {
+    name: 'Ethereum Sepolia',
+    chainId: 11155111,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.etherscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ETH_HOLESKY]: {
+    name: 'Ethereum Holesky',
+    chainId: 17000,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://holesky.etherscan.io',
+    isTestnet: true,
+    isDeprecated: true,
+    supportsEip1559: true,
+  },
+  [Network.ABSTRACT_MAINNET]: {
+    name: 'Abstract Mainnet',
+    chainId: 2741,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://abscan.org',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ABSTRACT_TESTNET]: {
+    name: 'Abstract Testnet',
+    chainId: 11124,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.abscan.org',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.APECHAIN_CURTIS]: {
+    name: 'ApeChain Curtis',
+    chainId: 33111,
+    nativeCurrency: native('ApeCoin', 'APE'),
+    explorerUrl: 'https://curtis.apescan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.APECHAIN_MAINNET]: {
+    name: 'ApeChain Mainnet',
+    chainId: 33139,
+    nativeCurrency: native('ApeCoin', 'APE'),
+    explorerUrl: 'https://apescan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ARB_MAINNET]: {
+    name: 'Arbitrum One',
+    chainId: 42161,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://arbiscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ARB_SEPOLIA]: {
+    name: 'Arbitrum Sepolia',
+    chainId: 421614,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.arbiscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ARBITRUM_NOVA]: {
+    name: 'Arbitrum Nova',
+    chainId: 42170,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://nova.arbiscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.AVAX_MAINNET]: {
+    name: 'Avalanche C-Chain',
+    chainId: 43114,
+    nativeCurrency: native('Avalanche', 'AVAX'),
+    explorerUrl: 'https://snowscan.xyz',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.AVAX_FUJI]: {
+    name: 'Avalanche Fuji',
+    chainId: 43113,
+    nativeCurrency: native('Avalanche', 'AVAX'),
+    explorerUrl: 'https://testnet.snowscan.xyz',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BASE_MAINNET]: {
+    name: 'Base Mainnet',
+    chainId: 8453,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://basescan.org',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BASE_SEPOLIA]: {
+    name: 'Base Sepolia',
+    chainId: 84532,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.basescan.org',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BERACHAIN_MAINNET]: {
+    name: 'Berachain Mainnet',
+    chainId: 80094,
+    nativeCurrency: native('Bera', 'BERA'),
+    explorerUrl: 'https://berascan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BITTORRENT_MAINNET]: {
+    name: 'BitTorrent Chain Mainnet',
+    chainId: 199,
+    nativeCurrency: native('BitTorrent', 'BTT'),
+    explorerUrl: 'https://bttcscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BITTORRENT_TESTNET]: {
+    name: 'BitTorrent Chain Testnet',
+    chainId: 1028,
+    nativeCurrency: native('BitTorrent', 'BTT'),
+    explorerUrl: 'https://testnet.bttcscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BLAST_MAINNET]: {
+    name: 'Blast Mainnet',
+    chainId: 81457,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://blastscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BLAST_SEPOLIA]: {
+    name: 'Blast Sepolia',
+    chainId: 168587773,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.blastscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BNB_MAINNET]: {
+    name: 'BNB Smart Chain Mainnet',
+    chainId: 56,
+    nativeCurrency: native('BNB', 'BNB'),
+    explorerUrl: 'https://bscscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.BNB_TESTNET]: {
+    name: 'BNB Smart Chain Testnet',
+    chainId: 97,
+    nativeCurrency: native('BNB', 'tBNB'),
+    explorerUrl: 'https://testnet.bscscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.CELO_ALFAJORES]: {
+    name: 'Celo Alfajores',
+    chainId: 44787,
+    nativeCurrency: native('Celo', 'CELO'),
+    explorerUrl: 'https://alfajores.celoscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.CELO_MAINNET]: {
+    name: 'Celo Mainnet',
+    chainId: 42220,
+    nativeCurrency: native('Celo', 'CELO'),
+    explorerUrl: 'https://celoscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.CRONOS_MAINNET]: {
+    name: 'Cronos Mainnet',
+    chainId: 25,
+    nativeCurrency: native('Cronos', 'CRO'),
+    explorerUrl: 'https://cronoscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.FRAX_MAINNET]: {
+    name: 'Fraxtal Mainnet',
+    chainId: 252,
+    nativeCurrency: native('Frax', 'FRAX'),
+    explorerUrl: 'https://fraxscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.FRAX_SEPOLIA]: {
+    name: 'Fraxtal Testnet',
+    chainId: 2522,
+    nativeCurrency: native('Frax', 'FRAX'),
+    explorerUrl: 'https://holesky.fraxscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.GNOSIS_MAINNET]: {
+    name: 'Gnosis',
+    chainId: 100,
+    nativeCurrency: native('xDAI', 'XDAI'),
+    explorerUrl: 'https://gnosisscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.LINEA_MAINNET]: {
+    name: 'Linea Mainnet',
+    chainId: 59144,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://lineascan.build',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.LINEA_SEPOLIA]: {
+    name: 'Linea Sepolia',
+    chainId: 59141,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.lineascan.build',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MANTLE_MAINNET]: {
+    name: 'Mantle Mainnet',
+    chainId: 5000,
+    nativeCurrency: native('Mantle', 'MNT'),
+    explorerUrl: 'https://mantlescan.xyz',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MANTLE_SEPOLIA]: {
+    name: 'Mantle Sepolia',
+    chainId: 5003,
+    nativeCurrency: native('Mantle', 'MNT'),
+    explorerUrl: 'https://sepolia.mantlescan.xyz',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MOONBASE_ALPHA]: {
+    name: 'Moonbase Alpha',
+    chainId: 1287,
+    nativeCurrency: native('Dev', 'DEV'),
+    explorerUrl: 'https://moonbase.moonscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MOONBEAM_MAINNET]: {
+    name: 'Moonbeam',
+    chainId: 1284,
+    nativeCurrency: native('Glimmer', 'GLMR'),
+    explorerUrl: 'https://moonscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MOONRIVER_MAINNET]: {
+    name: 'Moonriver',
+    chainId: 1285,
+    nativeCurrency: native('Moonriver', 'MOVR'),
+    explorerUrl: 'https://moonriver.moonscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.OPT_MAINNET]: {
+    name: 'OP Mainnet',
+    chainId: 10,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://optimistic.etherscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.OPT_SEPOLIA]: {
+    name: 'OP Sepolia',
+    chainId: 11155420,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia-optimism.etherscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MATIC_AMOY]: {
+    name: 'Polygon Amoy',
+    chainId: 80002,
+    nativeCurrency: native('POL', 'POL'),
+    explorerUrl: 'https://amoy.polygonscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.MATIC_MAINNET]: {
+    name: 'Polygon Mainnet',
+    chainId: 137,
+    nativeCurrency: native('POL', 'POL'),
+    explorerUrl: 'https://polygonscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.POLYGONZKEVM_CARDONA]: {
+    name: 'Polygon zkEVM Cardona',
+    chainId: 2442,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://cardona-zkevm.polygonscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: false,
+  },
+  [Network.POLYGONZKEVM_MAINNET]: {
+    name: 'Polygon zkEVM',
+    chainId: 1101,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://zkevm.polygonscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: false,
+  },
+  [Network.SCROLL_MAINNET]: {
+    name: 'Scroll Mainnet',
+    chainId: 534352,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://scrollscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.SCROLL_SEPOLIA]: {
+    name: 'Scroll Sepolia',
+    chainId: 534351,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.scrollscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.SONIC_BLAZE]: {
+    name: 'Sonic Blaze',
+    chainId: 57054,
+    nativeCurrency: native('Sonic', 'S'),
+    explorerUrl: 'https://testnet.sonicscan.org',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.SONIC_MAINNET]: {
+    name: 'Sonic Mainnet',
+    chainId: 146,
+    nativeCurrency: native('Sonic', 'S'),
+    explorerUrl: 'https://sonicscan.org',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.SOPHON_MAINNET]: {
+    name: 'Sophon Mainnet',
+    chainId: 50104,
+    nativeCurrency: native('Sophon', 'SOPH'),
+    explorerUrl: 'https://sophscan.xyz',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.SOPHON_SEPOLIA]: {
+    name: 'Sophon Sepolia',
+    chainId: 531050104,
+    nativeCurrency: native('Sophon', 'SOPH'),
+    explorerUrl: 'https://testnet.sophscan.xyz',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.TAIKO_HEKLA]: {
+    name: 'Taiko Hekla',
+    chainId: 167009,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://hekla.taikoscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.TAIKO_MAINNET]: {
+    name: 'Taiko Mainnet',
+    chainId: 167000,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://taikoscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.UNICHAIN_MAINNET]: {
+    name: 'Unichain Mainnet',
+    chainId: 130,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://uniscan.xyz',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.UNICHAIN_SEPOLIA]: {
+    name: 'Unichain Sepolia',
+    chainId: 1301,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.uniscan.xyz',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.WEMIX_MAINNET]: {
+    name: 'WEMIX3.0 Mainnet',
+    chainId: 1111,
+    nativeCurrency: native('WEMIX', 'WEMIX'),
+    explorerUrl: 'https://wemixscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.WEMIX_TESTNET]: {
+    name: 'WEMIX3.0 Testnet',
+    chainId: 1112,
+    nativeCurrency: native('WEMIX', 'WEMIX'),
+    explorerUrl: 'https://testnet.wemixscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.WORLDCHAIN_MAINNET]: {
+    name: 'World Chain Mainnet',
+    chainId: 480,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://worldscan.org',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.WORLDCHAIN_SEPOLIA]: {
+    name: 'World Chain Sepolia',
+    chainId: 4801,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia.worldscan.org',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.XAI_MAINNET]: {
+    name: 'Xai Mainnet',
+    chainId: 660279,
+    nativeCurrency: native('Xai', 'XAI'),
+    explorerUrl: 'https://xaiscan.io',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.XAI_SEPOLIA]: {
+    name: 'Xai Sepolia',
+    chainId: 37714555429,
+    nativeCurrency: native('Xai', 'XAI'),
+    explorerUrl: 'https://sepolia.xaiscan.io',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.XDC_APOTHEM]: {
+    name: 'XDC Apothem',
+    chainId: 51,
+    nativeCurrency: native('XDC', 'TXDC'),
+    explorerUrl: 'https://testnet.xdcscan.com',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: false,
+  },
+  [Network.XDC_MAINNET]: {
+    name: 'XDC Mainnet',
+    chainId: 50,
+    nativeCurrency: native('XDC', 'XDC'),
+    explorerUrl: 'https://xdcscan.com',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: false,
+  },
+  [Network.ZKSYNC_MAINNET]: {
+    name: 'zkSync Era Mainnet',
+    chainId: 324,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://era.zksync.network',
+    isTestnet: false,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+  [Network.ZKSYNC_SEPOLIA]: {
+    name: 'zkSync Era Sepolia',
+    chainId: 300,
+    nativeCurrency: ETHER,
+    explorerUrl: 'https://sepolia-era.zksync.network',
+    isTestnet: true,
+    isDeprecated: false,
+    supportsEip1559: true,
+  },
+};
+
 /**
  * Supported chains
  */
@@ -159,6 +757,105 @@ export const DEFAULT_TIMEOUT = 30000;
 export const DEFAULT_MAX_REQUESTS_PER_SECOND = 5;
 export const DEFAULT_NETWORK = Network.ETH_MAINNET;
 export const DEFAULT_VERSION = 'v2';
+export const DEFAULT_PAGE_SIZE = 1000;
+
+/**
+ * Etherscan rejects pages past this many results (`page * offset`)
+ */
+export const MAX_RESULT_WINDOW = 10000;
+
+/**
+ * Maximum number of records returned by a single `logs.getLogs` query
+ */
+export const MAX_LOGS_PER_QUERY = 1000;
+
+/**
+ * Maximum number of addresses accepted by a single `account.balancemulti` query
+ */
+export const MAX_BALANCE_MULTI_ADDRESSES = 20;
+
+/**
+ * Rate limits of the Etherscan API plans
+ * @see {@link https://docs.etherscan.io/resources/rate-limits}
+ */
+export const RATE_LIMIT_PLANS: Record<
+  RateLimitPlan,
+  { requestsPerSecond: number; requestsPerDay: number }
+> = {
+  free: { requestsPerSecond: 5, requestsPerDay: 100000 },
+  standard: { requestsPerSecond: 10, requestsPerDay: 200000 },
+  advanced: { requestsPerSecond: 20, requestsPerDay: 500000 },
+  professional: { requestsPerSecond: 30, requestsPerDay: 1000000 },
+  'pro-plus': { requestsPerSecond: 30, requestsPerDay: 1500000 },
+};
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: true,
+  retryOn: [EtherscanNetworkError],
+  retryOnRateLimit: true,
+  respectRetryAfter: true,
+};
+
+/**
+ * Actions returning a list, keyed by `module.action`. Their "No records found"
+ * responses are returned as empty arrays unless `throwOnNotFound` is set.
+ */
+export const LIST_ACTIONS: string[] = [
+  'account.txlist',
+  'account.txlistinternal',
+  'account.tokentx',
+  'account.tokennfttx',
+  'account.token1155tx',
+  'account.getminedblocks',
+  'account.txsBeaconWithdrawal',
+  'account.addresstokenbalance',
+  'account.addresstokennftbalance',
+  'account.addresstokennftinventory',
+  'logs.getLogs',
+  'token.tokenholderlist',
+  'contract.getcontractcreation',
+  'stats.dailytxnfee',
+  'stats.dailynewaddress',
+  'stats.dailytx',
+  'stats.dailyavgblocksize',
+  'stats.dailyavgblocktime',
+  'stats.dailyuncleblkcount',
+];
+
+/**
+ * Default cache TTLs in milliseconds, keyed by `module.action`.
+ * Actions that are not listed fall back to `CacheOptions.defaultTtl`.
+ */
+export const DEFAULT_CACHE_TTLS: Record<string, number> = {
+  // Finalized data never changes
+  'contract.getabi': Infinity,
+  'contract.getsourcecode': Infinity,
+  'contract.getcontractcreation': Infinity,
+  'block.getblockreward': Infinity,
+  'account.balancehistory': Infinity,
+  'account.tokenbalancehistory': Infinity,
+  'stats.tokensupplyhistory': Infinity,
+  'proxy.eth_getBlockByHash': Infinity,
+  'proxy.eth_getTransactionByHash': Infinity,
+  'proxy.eth_getTransactionReceipt': Infinity,
+  // Slow-changing data
+  'token.tokeninfo': 24 * 60 * 60 * 1000,
+  'stats.ethprice': 60 * 1000,
+  // Fast-changing data
+  'gastracker.gasoracle': 10 * 1000,
+  'proxy.eth_gasPrice': 10 * 1000,
+  // Never cached
+  'proxy.eth_sendRawTransaction': 0,
+  'contract.verifysourcecode': 0,
+  'contract.checkverifystatus': 0,
+};
+export const DEFAULT_CACHE_MAX_ENTRIES = 1000;
 
 /**
  * API response status values
@@ -174,7 +871,12 @@ export const API_STATUS = {
 export const ERROR_MESSAGES = {
   MISSING_API_KEY: 'API key is required',
   INVALID_NETWORK:
-    'Invalid network. Supported networks: mainnet, goerli, sepolia',
+    'Invalid network. Use a built-in network, a chain added with registerChain(), or pass a chainId or baseUrl',
   REQUEST_TIMEOUT: 'Request timed out',
+  REQUEST_ABORTED: 'Request aborted',
   RATE_LIMIT_EXCEEDED: 'Rate limit exceeded',
+  DAILY_LIMIT_REACHED: 'Daily request limit reached',
+  QUEUE_FULL: 'Request queue is full',
+  NO_API_KEY_AVAILABLE:
+    'No API key available, all keys are invalid or out of daily budget',
 };
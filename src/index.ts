@@ -1,3 +1,13 @@
 export * from './client';
 export * from './modules';
 export * from './types';
+export { MemoryCacheStore } from './utils/cache';
+export { paginate, paginateBlockRange, flattenPages } from './utils/paginate';
+export {
+  registerChain,
+  getRegisteredChain,
+  getChainMetadata,
+} from './utils/chains';
+export { ExplorerLinks } from './utils/explorer';
+export { formatUnits } from './utils/format';
+export { CHAIN_METADATA } from './constants';
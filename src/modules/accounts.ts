@@ -3,7 +3,7 @@
  * @module AccountsModule
  */
 
-import { SortDirection } from '../types';
+import { RequestOptions, SortDirection } from '../types';
 import { AccountsModuleOptions } from '../types/modules/accounts';
 import { EtherscanSDKBase } from '../baseClient';
 import { _AccountsModule } from '../_modules/accounts';
@@ -48,7 +48,7 @@ export class AccountsModule extends EtherscanSDKBase {
 
     this.singleAddress = Array.isArray(address) ? address[0] : address;
     this.multipleAddresses = Array.isArray(address) ? address : [address];
-    this.baseAccounts = new _AccountsModule(this.httpClient, this.apiKey);
+    this.baseAccounts = new _AccountsModule(this.httpClient);
 
     this.page = options.page;
     this.offset = options.offset;
@@ -60,6 +60,7 @@ export class AccountsModule extends EtherscanSDKBase {
 
   /**
    * Get Ether balance for a single address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<string>} Account balance in Wei
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -68,17 +69,22 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(balance); // '1000000000000000000' (1 ETH)
    * ```
    */
-  public async getBalance() {
-    return this.baseAccounts.getBalance({
-      address: this.singleAddress,
-      tag: this.tag,
-    });
+  public async getBalance(options?: RequestOptions) {
+    return this.baseAccounts.getBalance(
+      {
+        address: this.singleAddress,
+        tag: this.tag,
+      },
+      options
+    );
   }
 
   /**
-   * Get Ether balance for multiple addresses in a single call
-   * @returns {Promise<Array<Accounts.BalanceResponse>>} Array of account balances in Wei
+   * Get Ether balance for every address of the `address` option, 20 addresses per call
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Array<Accounts.BalanceResponse>>} Array of account balances in Wei, in the order of `address`
    * @throws {EtherscanValidationError} if addresses array is empty or contains invalid addresses
+   * @throws {BatchError} if some calls fail, with the balances of the others in `results`
    * @example
    * ```ts
    * const balances = await accountsModule.getBalanceMulti();
@@ -86,15 +92,71 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(balances[0].balance); // '1000000000000000000'
    * ```
    */
-  public async getBalanceMulti() {
-    return this.baseAccounts.getBalanceMulti({
-      addresses: this.multipleAddresses,
-      tag: this.tag,
-    });
+  public async getBalanceMulti(options?: RequestOptions) {
+    return this.baseAccounts.getBalanceMulti(
+      {
+        addresses: this.multipleAddresses,
+        tag: this.tag,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get Ether balance for a single address at a past block
+   * @param {number} blockno - Block number to read the balance at
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<string>} Account balance in Wei at the given block
+   * @throws {EtherscanValidationError} if address or block number is invalid
+   * @example
+   * ```ts
+   * const balance = await accountsModule.getBalanceHistory(8000000);
+   * console.log(balance); // '1000000000000000000' (1 ETH)
+   * ```
+   */
+  public async getBalanceHistory(blockno: number, options?: RequestOptions) {
+    return this.baseAccounts.getBalanceHistory(
+      {
+        address: this.singleAddress,
+        blockno,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get Ether balance for a single address at a point in time
+   * @param {Date} date - Point in time to read the balance at
+   * @param {'before'|'after'} [closest='before'] - Use the last block before the date or the first block after it
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Accounts.BalanceAtResponse>} The resolved block number and the balance in Wei at that block
+   * @throws {EtherscanValidationError} if address or date is invalid
+   * @example
+   * ```ts
+   * const { blockNumber, balance } = await accountsModule.getBalanceAt(
+   *   new Date('2024-01-31T23:59:59Z')
+   * );
+   * console.log(blockNumber, balance); // 19127542 '1000000000000000000'
+   * ```
+   */
+  public async getBalanceAt(
+    date: Date,
+    closest?: 'before' | 'after',
+    options?: RequestOptions
+  ) {
+    return this.baseAccounts.getBalanceAt(
+      {
+        address: this.singleAddress,
+        date,
+        closest,
+      },
+      options
+    );
   }
 
   /**
    * Get a list of 'normal' transactions by address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.TransactionsResponse>} List of transactions
    * @throws {EtherscanValidationError} if address or block numbers are invalid
    * @example
@@ -104,19 +166,23 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(transactions[0].value); // '1000000000000000000'
    * ```
    */
-  public async getTransactions() {
-    return this.baseAccounts.getTransactions({
-      address: this.singleAddress,
-      endBlock: this.endBlock,
-      offset: this.offset,
-      page: this.page,
-      sort: this.sort,
-      startBlock: this.startBlock,
-    });
+  public async getTransactions(options?: RequestOptions) {
+    return this.baseAccounts.getTransactions(
+      {
+        address: this.singleAddress,
+        endBlock: this.endBlock,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+        startBlock: this.startBlock,
+      },
+      options
+    );
   }
 
   /**
    * Get a list of 'internal' transactions by address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.InternalTransactionsResponse>} List of internal transactions
    * @throws {EtherscanValidationError} if address or block numbers are invalid
    * @example
@@ -126,20 +192,24 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(internalTxs[0].value); // '1000000000000000000'
    * ```
    */
-  public async getInternalTransactions() {
-    return this.baseAccounts.getInternalTransactions({
-      address: this.singleAddress,
-      endBlock: this.endBlock,
-      offset: this.offset,
-      page: this.page,
-      sort: this.sort,
-      startBlock: this.startBlock,
-    });
+  public async getInternalTransactions(options?: RequestOptions) {
+    return this.baseAccounts.getInternalTransactions(
+      {
+        address: this.singleAddress,
+        endBlock: this.endBlock,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+        startBlock: this.startBlock,
+      },
+      options
+    );
   }
 
   /**
    * Get a list of 'internal' transactions by transaction hash
    * @param {string} txhash - Transaction hash to get internal transactions for
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.InternalTransactionsResponse>} List of internal transactions
    * @throws {EtherscanValidationError} if transaction hash is invalid
    * @example
@@ -151,12 +221,16 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(internalTxs[0].value); // '1000000000000000000'
    * ```
    */
-  public async getInternalTransactionsByHash(txhash: string) {
-    return this.baseAccounts.getInternalTransactionsByHash(txhash);
+  public async getInternalTransactionsByHash(
+    txhash: string,
+    options?: RequestOptions
+  ) {
+    return this.baseAccounts.getInternalTransactionsByHash(txhash, options);
   }
 
   /**
    * Get a list of 'internal' transactions by block range
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Accounts.InternalTransactionsResponse>} List of internal transactions
    * @throws {EtherscanValidationError} if block numbers are invalid or start block is greater than end block
    * @example
@@ -166,18 +240,22 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(internalTxs[0].value); // '1000000000000000000'
    * ```
    */
-  public async getInternalTransactionsByBlockRange() {
-    return this.baseAccounts.getInternalTransactionsByBlockRange({
-      endBlock: this.endBlock!,
-      startBlock: this.startBlock!,
-      offset: this.offset,
-      page: this.page,
-      sort: this.sort,
-    });
+  public async getInternalTransactionsByBlockRange(options?: RequestOptions) {
+    return this.baseAccounts.getInternalTransactionsByBlockRange(
+      {
+        endBlock: this.endBlock!,
+        startBlock: this.startBlock!,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+      },
+      options
+    );
   }
 
   /**
    * Get a list of ERC-20 token transfer events by address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.TokenTransfer>>} List of token transfers
    * @throws {EtherscanValidationError} if address, contract address, or block numbers are invalid
    * @example
@@ -187,20 +265,27 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(transfers[0].value); // '1000000000000000000'
    * ```
    */
-  public async getTokenTransfers(contractAddress: string) {
-    return this.baseAccounts.getTokenTransfers({
-      address: this.singleAddress,
-      contractAddress,
-      endBlock: this.endBlock!,
-      startBlock: this.startBlock!,
-      offset: this.offset,
-      page: this.page,
-      sort: this.sort,
-    });
+  public async getTokenTransfers(
+    contractAddress: string,
+    options?: RequestOptions
+  ) {
+    return this.baseAccounts.getTokenTransfers(
+      {
+        address: this.singleAddress,
+        contractAddress,
+        endBlock: this.endBlock!,
+        startBlock: this.startBlock!,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+      },
+      options
+    );
   }
 
   /**
    * Get a list of ERC-721 NFT token transfer events by address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.NFTTransfer>>} List of NFT transfers
    * @throws {EtherscanValidationError} if address, contract address, or block numbers are invalid
    * @example
@@ -210,16 +295,22 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(nftTransfers[0].tokenID); // '123'
    * ```
    */
-  public async getNFTTransfers(contractAddress: string) {
-    return this.baseAccounts.getTokenTransfers({
-      address: this.singleAddress,
-      contractAddress,
-      endBlock: this.endBlock!,
-      startBlock: this.startBlock!,
-      offset: this.offset,
-      page: this.page,
-      sort: this.sort,
-    });
+  public async getNFTTransfers(
+    contractAddress: string,
+    options?: RequestOptions
+  ) {
+    return this.baseAccounts.getTokenTransfers(
+      {
+        address: this.singleAddress,
+        contractAddress,
+        endBlock: this.endBlock!,
+        startBlock: this.startBlock!,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+      },
+      options
+    );
   }
 
   /**
@@ -232,6 +323,7 @@ export class AccountsModule extends EtherscanSDKBase {
    * @param {number} [params.page=1] - Page number for pagination
    * @param {number} [params.offset=10] - Number of records per page
    * @param {'asc'|'desc'} [params.sort='desc'] - Sort order
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.ERC1155Transfer>>} List of ERC1155 transfers
    * @throws {EtherscanValidationError} if address, contract address, or block numbers are invalid
    * @example
@@ -239,24 +331,57 @@ export class AccountsModule extends EtherscanSDKBase {
    * const transfers = await accountsModule.getERC1155Transfers('0x456...def');
    * console.log(transfers[0].hash); // '0x789...xyz'
    * console.log(transfers[0].tokenID); // '123'
-   * console.log(transfers[0].value); // '100'
+   * console.log(transfers[0].tokenValue); // '100'
+   * ```
+   */
+  public async getERC1155Transfers(
+    contractAddress: string,
+    options?: RequestOptions
+  ) {
+    return this.baseAccounts.getERC1155Transfers(
+      {
+        address: this.singleAddress,
+        contractAddress,
+        endBlock: this.endBlock!,
+        startBlock: this.startBlock!,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+      },
+      options
+    );
+  }
+
+  /**
+   * Get a list of beacon chain withdrawals made to the address
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
+   * @returns {Promise<Array<Accounts.BeaconWithdrawalResponse>>} List of withdrawals, amounts in Gwei
+   * @throws {EtherscanValidationError} if address or block numbers are invalid
+   * @example
+   * ```ts
+   * const withdrawals = await accountsModule.getBeaconWithdrawals();
+   * console.log(withdrawals[0].validatorIndex); // '123456'
+   * console.log(withdrawals[0].amount); // '16354195' (Gwei)
    * ```
    */
-  public async getERC1155Transfers(contractAddress: string) {
-    return this.baseAccounts.getERC1155Transfers({
-      address: this.singleAddress,
-      contractAddress,
-      endBlock: this.endBlock!,
-      startBlock: this.startBlock!,
-      offset: this.offset,
-      page: this.page,
-      sort: this.sort,
-    });
+  public async getBeaconWithdrawals(options?: RequestOptions) {
+    return this.baseAccounts.getBeaconWithdrawals(
+      {
+        address: this.singleAddress,
+        endBlock: this.endBlock,
+        offset: this.offset,
+        page: this.page,
+        sort: this.sort,
+        startBlock: this.startBlock,
+      },
+      options
+    );
   }
 
   /**
    * Get list of blocks mined by address
    * @param {'blocks' | 'uncles'} blocktype - The pre-defined block type, either `blocks` for canonical blocks or `uncles` for uncle blocks only
+   * @param {RequestOptions} [options] - Per-call options such as an abort signal, timeout or priority
    * @returns {Promise<Array<Accounts.MinedBlock>>} List of mined blocks
    * @throws {EtherscanValidationError} if address is invalid
    * @example
@@ -267,12 +392,18 @@ export class AccountsModule extends EtherscanSDKBase {
    * console.log(minedBlocks[0].blockReward); // '2000000000000000000'
    * ```
    */
-  public async getMinedBlocks(blocktype: 'blocks' | 'uncles') {
-    return this.baseAccounts.getMinedBlocks({
-      address: this.singleAddress,
-      blocktype,
-      offset: this.offset,
-      page: this.page,
-    });
+  public async getMinedBlocks(
+    blocktype: 'blocks' | 'uncles',
+    options?: RequestOptions
+  ) {
+    return this.baseAccounts.getMinedBlocks(
+      {
+        address: this.singleAddress,
+        blocktype,
+        offset: this.offset,
+        page: this.page,
+      },
+      options
+    );
   }
 }
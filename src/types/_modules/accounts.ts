@@ -4,7 +4,7 @@
  * ==========================================
  */
 
-import { PaginatedRequest, BlockRangeRequest } from '../index';
+import { PaginatedRequest, BlockRangeRequest, TransactionType } from '../index';
 
 /**
  * ==========================================
@@ -22,6 +22,18 @@ export interface BalanceMultiRequest {
   tag?: string;
 }
 
+export interface BalanceHistoryRequest {
+  address: string;
+  blockno: number;
+}
+
+export interface BalanceAtRequest {
+  address: string;
+  date: Date;
+  /** Use the last block before the date (default) or the first block after it */
+  closest?: 'before' | 'after';
+}
+
 export interface TransactionsRequest
   extends PaginatedRequest,
     BlockRangeRequest {
@@ -48,6 +60,12 @@ export interface MinedBlockRequest {
   offset?: number;
 }
 
+export interface BeaconWithdrawalsRequest
+  extends PaginatedRequest,
+    BlockRangeRequest {
+  address: string;
+}
+
 /**
  * ==========================================
  * Response Types
@@ -97,6 +115,14 @@ export interface BalanceResponse {
   balance: string;
 }
 
+/**
+ * Balance at the block resolved for a date
+ */
+export interface BalanceAtResponse {
+  blockNumber: number;
+  balance: string;
+}
+
 export interface TransactionsResponse extends Array<Transaction> {}
 
 export interface InternalTransactionsResponse
@@ -116,6 +142,8 @@ export interface TokenTransferResponse {
   tokenSymbol: string;
   tokenDecimal: string;
   transactionIndex: string;
+  /** Position of the transfer log in the block, not returned by every explorer */
+  logIndex?: string;
   gas: string;
   gasPrice: string;
   gasUsed: string;
@@ -138,6 +166,8 @@ export interface NFTTransferResponse {
   tokenSymbol: string;
   tokenDecimal: string;
   transactionIndex: string;
+  /** Position of the transfer log in the block, not returned by every explorer */
+  logIndex?: string;
   gas: string;
   gasPrice: string;
   gasUsed: string;
@@ -156,11 +186,13 @@ export interface ERC1155TransferResponse {
   contractAddress: string;
   to: string;
   tokenID: string;
-  value: string;
+  /** Number of tokens of the id transferred */
+  tokenValue: string;
   tokenName: string;
   tokenSymbol: string;
-  tokenDecimal: string;
   transactionIndex: string;
+  /** Position of the transfer log in the block, not returned by every explorer */
+  logIndex?: string;
   gas: string;
   gasPrice: string;
   gasUsed: string;
@@ -174,3 +206,208 @@ export interface MinedBlockResponse {
   timeStamp: string;
   blockReward: string;
 }
+
+export interface BeaconWithdrawalResponse {
+  withdrawalIndex: string;
+  validatorIndex: string;
+  address: string;
+  /** Withdrawn amount in Gwei */
+  amount: string;
+  blockNumber: string;
+  timestamp: string;
+}
+
+/**
+ * ==========================================
+ * Parsed Types (returned with `normalize: true`)
+ * ==========================================
+ */
+
+export interface ParsedBalance {
+  account: string;
+  balance: bigint;
+}
+
+export interface ParsedBalanceAt {
+  blockNumber: number;
+  balance: bigint;
+}
+
+export interface ParsedTransaction
+  extends Omit<
+    Transaction,
+    | 'blockNumber'
+    | 'timeStamp'
+    | 'nonce'
+    | 'transactionIndex'
+    | 'value'
+    | 'gas'
+    | 'gasPrice'
+    | 'isError'
+    | 'txreceipt_status'
+    | 'cumulativeGasUsed'
+    | 'gasUsed'
+    | 'confirmations'
+  > {
+  blockNumber: number;
+  timeStamp: Date;
+  nonce: number;
+  transactionIndex: number;
+  value: bigint;
+  gas: bigint;
+  gasPrice: bigint;
+  isError: boolean;
+  /** `undefined` for transactions mined before the Byzantium fork */
+  txreceipt_status?: boolean;
+  cumulativeGasUsed: bigint;
+  gasUsed: bigint;
+  confirmations: number;
+}
+
+export interface ParsedInternalTransaction
+  extends Omit<
+    InternalTransaction,
+    'blockNumber' | 'timeStamp' | 'value' | 'gas' | 'gasUsed' | 'isError'
+  > {
+  blockNumber: number;
+  timeStamp: Date;
+  value: bigint;
+  gas: bigint;
+  gasUsed: bigint;
+  isError: boolean;
+}
+
+type ParsedTransferFields =
+  | 'blockNumber'
+  | 'timeStamp'
+  | 'nonce'
+  | 'tokenDecimal'
+  | 'transactionIndex'
+  | 'logIndex'
+  | 'gas'
+  | 'gasPrice'
+  | 'gasUsed'
+  | 'cumulativeGasUsed'
+  | 'confirmations';
+
+interface ParsedTransfer {
+  blockNumber: number;
+  timeStamp: Date;
+  nonce: number;
+  transactionIndex: number;
+  logIndex?: number;
+  gas: bigint;
+  gasPrice: bigint;
+  gasUsed: bigint;
+  cumulativeGasUsed: bigint;
+  confirmations: number;
+}
+
+export interface ParsedTokenTransfer
+  extends Omit<TokenTransferResponse, ParsedTransferFields | 'value'>,
+    ParsedTransfer {
+  value: bigint;
+  tokenDecimal: number;
+}
+
+export interface ParsedNFTTransfer
+  extends Omit<NFTTransferResponse, ParsedTransferFields>,
+    ParsedTransfer {
+  tokenDecimal: number;
+}
+
+export interface ParsedERC1155Transfer
+  extends Omit<ERC1155TransferResponse, ParsedTransferFields | 'tokenValue'>,
+    ParsedTransfer {
+  tokenValue: bigint;
+}
+
+export interface ParsedMinedBlock {
+  blockNumber: number;
+  timeStamp: Date;
+  blockReward: bigint;
+}
+
+export interface ParsedBeaconWithdrawal {
+  withdrawalIndex: number;
+  validatorIndex: number;
+  address: string;
+  /** Withdrawn amount in Gwei */
+  amount: bigint;
+  blockNumber: number;
+  timestamp: Date;
+}
+
+interface ActivityEntryOf<T extends TransactionType, D> {
+  type: T;
+  data: D;
+}
+
+/**
+ * A single transfer in an address timeline, discriminated by `type`
+ */
+export type ActivityEntry =
+  | ActivityEntryOf<'normal', Transaction>
+  | ActivityEntryOf<'internal', InternalTransaction>
+  | ActivityEntryOf<'token', TokenTransferResponse>
+  | ActivityEntryOf<'erc721', NFTTransferResponse>
+  | ActivityEntryOf<'erc1155', ERC1155TransferResponse>;
+
+/**
+ * Every transfer of a single transaction
+ */
+export interface ActivityGroup {
+  hash: string;
+  blockNumber: number;
+  timeStamp: number;
+  entries: ActivityEntry[];
+}
+
+export interface ActivityResponse extends Array<ActivityGroup> {}
+
+export type ParsedActivityEntry =
+  | ActivityEntryOf<'normal', ParsedTransaction>
+  | ActivityEntryOf<'internal', ParsedInternalTransaction>
+  | ActivityEntryOf<'token', ParsedTokenTransfer>
+  | ActivityEntryOf<'erc721', ParsedNFTTransfer>
+  | ActivityEntryOf<'erc1155', ParsedERC1155Transfer>;
+
+export interface ParsedActivityGroup extends Omit<ActivityGroup, 'entries'> {
+  entries: ParsedActivityEntry[];
+}
+
+export interface ParsedActivityResponse extends Array<ParsedActivityGroup> {}
+
+/**
+ * Results of the accounts methods with `normalize: true`, keyed on method name
+ */
+export interface AccountsParsedResults {
+  getBalance: bigint;
+  getBalanceMulti: ParsedBalance[];
+  getBalanceHistory: bigint;
+  getBalanceAt: ParsedBalanceAt;
+  getTransactions: ParsedTransaction[];
+  iterateTransactions: ParsedTransaction;
+  iterateAllTransactions: ParsedTransaction;
+  getInternalTransactions: ParsedInternalTransaction[];
+  iterateInternalTransactions: ParsedInternalTransaction;
+  iterateAllInternalTransactions: ParsedInternalTransaction;
+  getInternalTransactionsByHash: ParsedInternalTransaction[];
+  getInternalTransactionsByBlockRange: ParsedInternalTransaction[];
+  iterateInternalTransactionsByBlockRange: ParsedInternalTransaction;
+  getTokenTransfers: ParsedTokenTransfer[];
+  iterateTokenTransfers: ParsedTokenTransfer;
+  iterateAllTokenTransfers: ParsedTokenTransfer;
+  getNFTTransfers: ParsedNFTTransfer[];
+  iterateNFTTransfers: ParsedNFTTransfer;
+  iterateAllNFTTransfers: ParsedNFTTransfer;
+  getERC1155Transfers: ParsedERC1155Transfer[];
+  iterateERC1155Transfers: ParsedERC1155Transfer;
+  iterateAllERC1155Transfers: ParsedERC1155Transfer;
+  getMinedBlocks: ParsedMinedBlock[];
+  iterateMinedBlocks: ParsedMinedBlock;
+  getBeaconWithdrawals: ParsedBeaconWithdrawal[];
+  iterateBeaconWithdrawals: ParsedBeaconWithdrawal;
+  iterateAllBeaconWithdrawals: ParsedBeaconWithdrawal;
+  getActivity: ParsedActivityResponse;
+}
@@ -29,3 +29,10 @@ export interface BlockCountdownResponse {
   RemainingBlock: string;
   EstimateTimeInSec: string;
 }
+
+/**
+ * Results of the blocks methods with `normalize: true`, keyed on method name
+ */
+export interface BlocksParsedResults {
+  getBlockNumberByTimestamp: number;
+}
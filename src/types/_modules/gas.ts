@@ -19,3 +19,22 @@ export interface GasOracleResponse {
   suggestBaseFee: string;
   gasUsedRatio: string;
 }
+
+/**
+ * Gas oracle returned with `normalize: true`, prices are in gwei
+ */
+export interface ParsedGasOracle {
+  LastBlock: number;
+  SafeGasPrice: number;
+  ProposeGasPrice: number;
+  FastGasPrice: number;
+  suggestBaseFee: number;
+  gasUsedRatio: number[];
+}
+
+/**
+ * Results of the gas methods with `normalize: true`, keyed on method name
+ */
+export interface GasParsedResults {
+  getGasOracle: ParsedGasOracle;
+}
@@ -2,7 +2,7 @@
  * Logs module types
  */
 
-import { BlockRangeRequest, PaginatedRequest } from '../index';
+import { BlockRangeRequest, IterateOptions, PaginatedRequest } from '../index';
 
 export type TopicOperator = 'and' | 'or';
 
@@ -31,3 +31,51 @@ export interface Log {
 }
 
 export interface LogsResponse extends Array<Log> {}
+
+/**
+ * Log returned with `normalize: true`, hex quantities are converted
+ */
+export interface ParsedLog
+  extends Omit<
+    Log,
+    | 'blockNumber'
+    | 'timeStamp'
+    | 'gasPrice'
+    | 'gasUsed'
+    | 'logIndex'
+    | 'transactionIndex'
+  > {
+  blockNumber: number;
+  timeStamp: Date;
+  gasPrice: bigint;
+  gasUsed: bigint;
+  logIndex: number;
+  transactionIndex: number;
+}
+
+export interface LogsProgress {
+  /** First block of the scan */
+  startBlock: number;
+  /** Last block of the scan */
+  endBlock: number;
+  /** Last block scanned so far */
+  currentBlock: number;
+  /** Logs found so far */
+  logsFound: number;
+  /** Share of the block range scanned, from 0 to 1 */
+  progress: number;
+}
+
+export interface IterateLogsOptions extends IterateOptions {
+  /** Called every time a block range has been scanned */
+  onProgress?: (progress: LogsProgress) => void;
+}
+
+/**
+ * Results of the logs methods with `normalize: true`, keyed on method name
+ */
+export interface LogsParsedResults {
+  getLogs: ParsedLog[];
+  iterateLogs: ParsedLog;
+  getAllLogs: ParsedLog[];
+}
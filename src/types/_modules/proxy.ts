@@ -118,3 +118,95 @@ export interface LogRequest {
   address?: string;
   topics?: string[];
 }
+
+/**
+ * ==========================================
+ * Parsed Types (returned with `normalize: true`)
+ * ==========================================
+ */
+
+export interface ParsedProxyTransaction
+  extends Omit<
+    TransactionResponse,
+    'nonce' | 'blockNumber' | 'transactionIndex' | 'value' | 'gas' | 'gasPrice'
+  > {
+  nonce: number;
+  /** `null` while the transaction is pending */
+  blockNumber: number | null;
+  transactionIndex: number | null;
+  value: bigint;
+  gas: bigint;
+  gasPrice: bigint;
+}
+
+export interface ParsedBlock
+  extends Omit<
+    BlockResponse,
+    | 'number'
+    | 'difficulty'
+    | 'totalDifficulty'
+    | 'size'
+    | 'gasLimit'
+    | 'gasUsed'
+    | 'timestamp'
+    | 'transactions'
+  > {
+  number: number;
+  difficulty: bigint;
+  totalDifficulty: bigint;
+  size: number;
+  gasLimit: bigint;
+  gasUsed: bigint;
+  timestamp: Date;
+  /** Transaction hashes, or full transactions when requested */
+  transactions: Array<string | ParsedProxyTransaction>;
+}
+
+export interface ParsedProxyLog
+  extends Omit<LogResponse, 'blockNumber' | 'transactionIndex' | 'logIndex'> {
+  blockNumber: number;
+  transactionIndex: number;
+  logIndex: number;
+}
+
+export interface ParsedTransactionReceipt
+  extends Omit<
+    TransactionReceiptResponse,
+    | 'transactionIndex'
+    | 'blockNumber'
+    | 'cumulativeGasUsed'
+    | 'gasUsed'
+    | 'logs'
+    | 'status'
+  > {
+  transactionIndex: number;
+  blockNumber: number;
+  cumulativeGasUsed: bigint;
+  gasUsed: bigint;
+  logs: ParsedProxyLog[];
+  /** `true` if the transaction succeeded */
+  status: boolean;
+}
+
+/**
+ * Results of the proxy methods with `normalize: true`, keyed on method name
+ */
+export interface ProxyParsedResults {
+  getBlockNumber: number;
+  getBlockByNumber: ParsedBlock;
+  getBlockByHash: ParsedBlock;
+  getTransactionByHash: ParsedProxyTransaction;
+  getTransactionByBlockHashAndIndex: ParsedProxyTransaction;
+  getTransactionByBlockNumberAndIndex: ParsedProxyTransaction;
+  getTransactionReceipt: ParsedTransactionReceipt;
+  getTransactionCount: number;
+  getBlockTransactionCountByNumber: number;
+  getBlockTransactionCountByHash: number;
+  getUncleCountByBlockNumber: number;
+  getUncleCountByBlockHash: number;
+  getUncleByBlockHashAndIndex: ParsedBlock;
+  getUncleByBlockNumberAndIndex: ParsedBlock;
+  getLogs: ParsedProxyLog[];
+  getGasPrice: bigint;
+  estimateGas: bigint;
+}
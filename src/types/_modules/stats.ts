@@ -15,9 +15,36 @@ export interface EthSupplyResponse {
   BurntFees: string;
 }
 
+/**
+ * Ether price returned with `normalize: true`
+ */
+export interface ParsedEthPrice {
+  ethbtc: number;
+  ethbtc_timestamp: Date;
+  ethusd: number;
+  ethusd_timestamp: Date;
+}
+
+/**
+ * Ether supply returned with `normalize: true`, amounts are in wei
+ */
+export interface ParsedEthSupply {
+  EthSupply: bigint;
+  Eth2Staking: bigint;
+  BurntFees: bigint;
+}
+
 export interface EthNodeSizeResponse {
   blockNumber: string;
   chainNeeded: string;
   pruningNeeded: string;
   archiveNeeded: string;
 }
+
+/**
+ * Results of the stats methods with `normalize: true`, keyed on method name
+ */
+export interface StatsParsedResults {
+  getEthPrice: ParsedEthPrice;
+  getEthSupply: ParsedEthSupply;
+}
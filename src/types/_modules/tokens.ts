@@ -8,11 +8,33 @@ export interface TokenBalanceRequest {
   tag?: string;
 }
 
+export interface TokenBalanceHistoryRequest {
+  contractAddress: string;
+  address: string;
+  blockno: number;
+}
+
+export interface TokenBalanceAtRequest {
+  contractAddress: string;
+  address: string;
+  date: Date;
+  /** Use the last block before the date (default) or the first block after it */
+  closest?: 'before' | 'after';
+}
+
 export interface TokenBalanceResponse {
   account: string;
   balance: string;
 }
 
+/**
+ * Token balance at the block resolved for a date
+ */
+export interface TokenBalanceAtResponse {
+  blockNumber: number;
+  balance: string;
+}
+
 export interface TokenSupplyRequest {
   contractAddress: string;
 }
@@ -21,19 +43,196 @@ export interface TokenSupplyResponse {
   supply: string;
 }
 
+export interface TokenSupplyHistoryRequest {
+  contractAddress: string;
+  blockno: number;
+}
+
 export interface TokenHolderResponse {
+  TokenHolderAddress: string;
+  /** Balance in base units */
+  TokenHolderQuantity: string;
+}
+
+/**
+ * Token holder returned with `normalize: true`
+ */
+export interface ParsedTokenHolder {
+  TokenHolderAddress: string;
+  TokenHolderQuantity: bigint;
+}
+
+/**
+ * Token balance at the block resolved for a date, returned with `normalize: true`
+ */
+export interface ParsedTokenBalanceAt {
+  blockNumber: number;
+  balance: bigint;
+}
+
+/**
+ * A token holder and the part of the total supply it holds
+ */
+export interface TokenHolderShare {
   address: string;
+  /** Balance in base units */
   value: string;
+  /** Fraction of the total supply held, from 0 to 1 */
+  share: number;
 }
 
-export interface TokenInfoResponse {
+/**
+ * Largest holders of a token and how concentrated its supply is
+ */
+export interface TopHoldersResponse {
+  /** Total supply in base units */
+  totalSupply: string;
+  /** Number of holders fetched */
+  holderCount: number;
+  /** Largest holders, biggest first */
+  holders: TokenHolderShare[];
+  /** Fraction of the total supply held by the returned holders */
+  topShare: number;
+  /** Fraction of the total supply held by the 10 largest holders */
+  top10Share: number;
+  /** Gini coefficient of the holder balances, from 0 (equal) to 1 (one holder has everything) */
+  gini: number;
+  /** Whether the API stopped at its 10,000 result window, the metrics then only cover the holders fetched */
+  truncated: boolean;
+}
+
+export interface AddressTokenBalanceRequest {
+  address: string;
+  page?: number;
+  offset?: number;
+}
+
+export interface AddressNFTInventoryRequest {
+  address: string;
+  contractAddress: string;
+  page?: number;
+  offset?: number;
+}
+
+export interface AddressTokenBalanceResponse {
+  TokenAddress: string;
+  TokenName: string;
+  TokenSymbol: string;
+  TokenQuantity: string;
+  /** Number of decimals of the token */
+  TokenDivisor: string;
+}
+
+export interface AddressNFTBalanceResponse {
+  TokenAddress: string;
+  TokenName: string;
+  TokenSymbol: string;
+  /** Number of tokens of the collection held */
+  TokenQuantity: string;
+}
+
+export interface AddressNFTInventoryResponse {
+  TokenAddress: string;
+  TokenId: string;
+}
+
+/**
+ * Token holdings returned with `normalize: true`
+ */
+export interface ParsedAddressTokenBalance
+  extends Omit<AddressTokenBalanceResponse, 'TokenQuantity' | 'TokenDivisor'> {
+  TokenQuantity: bigint;
+  TokenDivisor: number;
+}
+
+/**
+ * NFT holdings returned with `normalize: true`
+ */
+export interface ParsedAddressNFTBalance
+  extends Omit<AddressNFTBalanceResponse, 'TokenQuantity'> {
+  TokenQuantity: number;
+}
+
+/**
+ * An ERC20 token held by an address
+ */
+export interface PortfolioToken {
+  contractAddress: string;
   name: string;
   symbol: string;
-  decimals: string;
-  totalSupply: string;
-  owner: string;
+  decimals: number;
+  /** Balance in base units */
+  balance: string;
+  /** Balance in whole tokens, e.g. '1.5' */
+  formatted: string;
+}
+
+/**
+ * An ERC721 collection held by an address
+ */
+export interface PortfolioNFT {
+  contractAddress: string;
+  name: string;
+  symbol: string;
+  /** Number of tokens of the collection held */
+  quantity: number;
+}
+
+/**
+ * Everything held by an address
+ */
+export interface PortfolioResponse {
+  address: string;
+  native: {
+    /** Balance in Wei */
+    balance: string;
+    /** Balance in whole units of the native currency, e.g. '1.5' */
+    formatted: string;
+  };
+  tokens: PortfolioToken[];
+  nfts: PortfolioNFT[];
+}
+
+export interface TokenInfoResponse {
   contractAddress: string;
-  blockNumber: string;
-  blockHash: string;
-  timestamp: string;
+  tokenName: string;
+  symbol: string;
+  /** Number of decimals of the token */
+  divisor: string;
+  tokenType: string;
+  totalSupply: string;
+  blueCheckmark?: string;
+  description?: string;
+  website?: string;
+  email?: string;
+  blog?: string;
+  reddit?: string;
+  slack?: string;
+  facebook?: string;
+  twitter?: string;
+  bitcointalk?: string;
+  github?: string;
+  telegram?: string;
+  wechat?: string;
+  linkedin?: string;
+  discord?: string;
+  whitepaper?: string;
+  tokenPriceUSD?: string;
+}
+
+/**
+ * Results of the tokens methods with `normalize: true`, keyed on method name
+ */
+export interface TokensParsedResults {
+  getTokenBalance: bigint;
+  getTokenBalanceHistory: bigint;
+  getTokenBalanceAt: ParsedTokenBalanceAt;
+  getTokenSupply: bigint;
+  getTokenSupplyHistory: bigint;
+  getTokenHolders: ParsedTokenHolder[];
+  iterateTokenHolders: ParsedTokenHolder;
+  getAddressTokenBalances: ParsedAddressTokenBalance[];
+  iterateAddressTokenBalances: ParsedAddressTokenBalance;
+  getAddressNFTBalances: ParsedAddressNFTBalance[];
+  iterateAddressNFTBalances: ParsedAddressNFTBalance;
 }
@@ -7,7 +7,10 @@ export interface StatusRequest {
 }
 
 export interface StatusResponse {
-  status: string;
+  /** '0' when the transaction succeeded, '1' when it failed */
+  isError: string;
+  /** Reason of the failure, empty when the transaction succeeded */
+  errDescription: string;
 }
 
 export interface ReceiptStatusRequest {
@@ -21,6 +21,16 @@ export interface PaginatedRequest {
   sort?: SortDirection;
 }
 
+/**
+ * Options for walking through a paginated endpoint
+ */
+export interface PaginateOptions {
+  /** Records per page (defaults to 1000) */
+  pageSize?: number;
+  /** Page to start from (defaults to 1) */
+  startPage?: number;
+}
+
 /**
  * Block range filter parameters
  */
@@ -0,0 +1,36 @@
+/**
+ * Cache types
+ */
+
+import { APIResponse } from './base';
+
+/**
+ * Storage backend for cached API responses.
+ * Methods may be synchronous or return promises.
+ */
+export interface CacheStore {
+  /** Get a cached response, or `undefined` if missing or expired */
+  get(
+    key: string
+  ): Promise<APIResponse<any> | undefined> | APIResponse<any> | undefined;
+  /** Store a response for `ttl` milliseconds (`Infinity` never expires) */
+  set(key: string, value: APIResponse<any>, ttl: number): Promise<void> | void;
+  /** Remove a single entry */
+  delete(key: string): Promise<void> | void;
+  /** Remove all entries */
+  clear(): Promise<void> | void;
+}
+
+/**
+ * Response cache configuration
+ */
+export interface CacheOptions {
+  /** Storage backend (defaults to an in-memory LRU store) */
+  store?: CacheStore;
+  /** Maximum number of entries kept by the default in-memory store (defaults to 1000) */
+  maxEntries?: number;
+  /** Per-action TTL overrides in milliseconds, keyed by `module.action` (e.g. `contract.getabi`) */
+  ttls?: Record<string, number>;
+  /** TTL in milliseconds for actions without a default TTL, `0` disables caching them (defaults to 0) */
+  defaultTtl?: number;
+}
@@ -0,0 +1,63 @@
+/**
+ * Chain registry types
+ */
+import { Network, NetworkString } from './client';
+
+/**
+ * A built-in network, or the name of a chain added with `registerChain()`
+ */
+export type ChainName = Network | NetworkString | (string & {});
+
+/**
+ * Native currency of a chain
+ */
+export interface NativeCurrency {
+  /** Currency name, e.g. `Ether` */
+  name: string;
+  /** Ticker symbol, e.g. `ETH` */
+  symbol: string;
+  /** Number of decimals, 18 for most EVM chains */
+  decimals: number;
+}
+
+/**
+ * A chain added with `registerChain()`
+ */
+export interface ChainDefinition {
+  /** Network name used in the `network` option, e.g. `my-chain-mainnet` */
+  name: string;
+  /** Chain id sent to the V2 API */
+  chainId: number | string;
+  /** Base URL of a V1 (per-explorer) API, required to use the chain with `version: 'v1'` */
+  v1Url?: string;
+  /** Native currency of the chain (defaults to Ether) */
+  nativeCurrency?: NativeCurrency;
+  /** Explorer web URL, e.g. `https://explorer.example.com` */
+  explorerUrl?: string;
+  /** Whether the chain is a testnet (defaults to false) */
+  isTestnet?: boolean;
+  /** Whether the chain is shut down (defaults to false) */
+  isDeprecated?: boolean;
+  /** Whether the chain supports EIP-1559 transactions (defaults to true) */
+  supportsEip1559?: boolean;
+}
+
+/**
+ * Display name, native currency, explorer and capabilities of a chain
+ */
+export interface ChainMetadata {
+  /** Display name, e.g. `Ethereum Mainnet` */
+  name: string;
+  /** Chain id */
+  chainId: number;
+  /** Native currency used to pay for gas */
+  nativeCurrency: NativeCurrency;
+  /** Explorer web URL, without a trailing slash */
+  explorerUrl: string;
+  /** Whether the chain is a testnet */
+  isTestnet: boolean;
+  /** Whether the chain is shut down or no longer supported by its explorer */
+  isDeprecated: boolean;
+  /** Whether the chain supports EIP-1559 (type 2) transactions */
+  supportsEip1559: boolean;
+}
@@ -1,24 +1,175 @@
+import { CacheOptions } from './cache';
+import { ChainName } from './chain';
+import { Transport } from './http';
+
 /**
  * Supported SDK versions
  */
 export type Version = 'v1' | 'v2';
 
 /**
- * SDK Configuration options
+ * Backend serving the Etherscan-compatible API
+ */
+export type ApiProvider = 'etherscan' | 'blockscout' | 'routescan';
+
+/**
+ * Function returning the API key to use for the next request
+ */
+export type ApiKeyProvider = () => string | Promise<string>;
+
+/**
+ * A single API key, a list of keys to rotate through, or a key provider
+ */
+export type ApiKeySource = string | string[] | ApiKeyProvider;
+
+/**
+ * How the next key is picked from a list of API keys
+ */
+export type ApiKeyStrategy = 'round-robin' | 'least-used';
+
+/**
+ * Usage statistics of a single API key
+ */
+export interface ApiKeyStats {
+  /** Masked API key */
+  key: string;
+  /** Requests sent with this key */
+  requests: number;
+  /** Failed requests sent with this key */
+  errors: number;
+  /** Requests sent with this key during the current UTC day */
+  dailyUsage: number;
+  /** Whether the key is currently taken out of rotation */
+  quarantined: boolean;
+  /** Timestamp (ms) at which the key is put back in rotation, `Infinity` for invalid keys */
+  quarantinedUntil?: number;
+  /** Error that caused the quarantine */
+  quarantineReason?: string;
+}
+
+/**
+ * Etherscan API plans, used to pick rate limit defaults
+ */
+export type RateLimitPlan =
+  | 'free'
+  | 'standard'
+  | 'advanced'
+  | 'professional'
+  | 'pro-plus';
+
+/**
+ * Snapshot of the rate limiter state
+ */
+export interface RateLimitState {
+  /** Whether rate limiting is enabled */
+  enabled: boolean;
+  /** Sustained requests per second */
+  requestsPerSecond: number;
+  /** Maximum requests per UTC day, if limited */
+  requestsPerDay?: number;
+  /** Requests that can start immediately */
+  tokensRemaining: number;
+  /** Requests waiting for a token */
+  queueDepth: number;
+  /** Requests started during the current UTC day */
+  dailyUsage: number;
+  /** Requests left for the current UTC day, if limited */
+  dailyRemaining?: number;
+}
+
+/**
+ * Retry policy for failed requests
+ */
+export interface RetryOptions {
+  /** Maximum number of attempts, including the first one (defaults to 3) */
+  maxAttempts?: number;
+  /** Base delay in milliseconds for the exponential backoff (defaults to 500) */
+  baseDelay?: number;
+  /** Upper bound in milliseconds for a single backoff delay (defaults to 10000) */
+  maxDelay?: number;
+  /** Randomize each delay between 0 and the computed backoff (defaults to true) */
+  jitter?: boolean;
+  /** Error classes that should be retried (defaults to `[EtherscanNetworkError]`) */
+  retryOn?: Array<new (...args: any[]) => Error>;
+  /** Retry Etherscan "Max rate limit reached" responses (defaults to true) */
+  retryOnRateLimit?: boolean;
+  /** Wait for the `Retry-After` header when the server sends one (defaults to true) */
+  respectRetryAfter?: boolean;
+}
+
+/**
+ * Outcome of a call made on one chain by `onChains()`
+ */
+export type ChainResult<T> =
+  | { status: 'fulfilled'; value: T }
+  | { status: 'rejected'; reason: Error };
+
+/**
+ * Outcome of a call made by `onChains()`, keyed on network
+ */
+export type ChainResults<N extends string, T> = Record<N, ChainResult<T>>;
+
+/**
+ * A module as seen through a client created with `normalize: true` when `N`
+ * is `true`: the methods listed in `P` resolve to, or iterate over, the parsed
+ * type under their name. Other methods keep their signature.
+ */
+export type NormalizedModule<M, P, N extends boolean> = N extends true
+  ? {
+      [K in keyof M]: K extends keyof P
+        ? M[K] extends (...args: infer A) => Promise<unknown>
+          ? (...args: A) => Promise<P[K]>
+          : M[K] extends (...args: infer A) => AsyncIterable<unknown>
+          ? (...args: A) => AsyncIterable<P[K]>
+          : M[K]
+        : M[K];
+    }
+  : M;
+
+/**
+ * SDK Configuration options, `N` is the type of the `normalize` option
  */
-export interface EtherscanSDKOptions {
+export interface EtherscanSDKOptions<N extends boolean = boolean> {
   /** SDK version (defaults to 'v2') */
   version?: Version;
-  /** Etherscan API key */
-  apiKey: string;
-  /** Network to use (defaults to mainnet) */
-  network?: Network | NetworkString;
+  /** Etherscan API key, a list of keys to rotate through, or a function returning the key to use (optional for Blockscout and Routescan) */
+  apiKey?: ApiKeySource;
+  /** Backend serving the API (defaults to 'etherscan') */
+  provider?: ApiProvider;
+  /** How the next key is picked when several API keys are given (defaults to 'round-robin') */
+  apiKeyStrategy?: ApiKeyStrategy;
+  /** Network to use, built in or added with `registerChain()` (defaults to mainnet) */
+  network?: ChainName;
+  /** Chain id to query through the V2 API, for chains without a network name */
+  chainId?: number | string;
+  /** API URL of an Etherscan-compatible explorer, used as is instead of the Etherscan URL */
+  baseUrl?: string;
   /** Request timeout in milliseconds (defaults to 30000) */
   timeout?: number;
   /** Enable rate limiting (defaults to true) */
   rateLimitEnabled?: boolean;
-  /** Maximum number of requests per second (defaults to 5) */
+  /** Etherscan API plan used for the rate limit defaults */
+  plan?: RateLimitPlan;
+  /** Maximum number of requests per second, per API key (defaults to the plan limit, or 5) */
   maxRequestsPerSecond?: number;
+  /** Maximum number of requests per UTC day, per API key (defaults to the plan limit, or unlimited) */
+  maxRequestsPerDay?: number;
+  /** Maximum number of requests waiting for the rate limiter, extra requests are rejected (unlimited by default) */
+  maxQueueLength?: number;
+  /** Retry policy for failed requests, `false` disables retries (defaults to 3 attempts) */
+  retry?: RetryOptions | boolean;
+  /** Custom transport used to perform HTTP calls (defaults to the global `fetch`) */
+  transport?: Transport;
+  /** Cache responses of immutable or slow-changing endpoints (disabled by default) */
+  cache?: CacheOptions | boolean;
+  /** Share one in-flight request between identical concurrent GET calls (defaults to true) */
+  dedupeRequests?: boolean;
+  /** Throw a `NotFoundError` instead of returning an empty array when a list action has no records (defaults to false) */
+  throwOnNotFound?: boolean;
+  /** Convert quantities to `bigint` or `number`, timestamps to `Date` and flags to booleans (defaults to false) */
+  normalize?: N;
+  /** Check response shapes at runtime, `'warn'` logs mismatches instead of throwing a `ResponseShapeError` (defaults to false) */
+  validateResponses?: boolean | 'warn';
 }
 
 /**
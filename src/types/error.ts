@@ -1,10 +1,167 @@
 /**
  * Error types
  */
+
+/**
+ * Stable error codes carried by every API error
+ */
+export enum EtherscanErrorCode {
+  API_ERROR = 'API_ERROR',
+  RATE_LIMIT = 'RATE_LIMIT',
+  DAILY_LIMIT_REACHED = 'DAILY_LIMIT_REACHED',
+  INVALID_API_KEY = 'INVALID_API_KEY',
+  RESULT_WINDOW_TOO_LARGE = 'RESULT_WINDOW_TOO_LARGE',
+  QUERY_TIMEOUT = 'QUERY_TIMEOUT',
+  DEPRECATED_ENDPOINT = 'DEPRECATED_ENDPOINT',
+  UNSUPPORTED_ENDPOINT = 'UNSUPPORTED_ENDPOINT',
+  JSON_RPC_ERROR = 'JSON_RPC_ERROR',
+  NOT_FOUND = 'NOT_FOUND',
+  QUEUE_FULL = 'QUEUE_FULL',
+  NO_API_KEY_AVAILABLE = 'NO_API_KEY_AVAILABLE',
+  RESPONSE_SHAPE_MISMATCH = 'RESPONSE_SHAPE_MISMATCH',
+  PARTIAL_FAILURE = 'PARTIAL_FAILURE',
+}
+
+/**
+ * Where an API error happened
+ */
+export interface EtherscanErrorDetails {
+  /** API module, e.g. `account` */
+  module?: string;
+  /** API action, e.g. `txlist` */
+  action?: string;
+  /** Chain id the request was made against */
+  chainId?: string;
+  /** Request URL with the API key redacted */
+  url?: string;
+  /** Raw `result` field of the response */
+  result?: unknown;
+}
+
 export class EtherscanAPIError extends Error {
-  constructor(public code: string, message: string) {
+  public readonly module?: string;
+  public readonly action?: string;
+  public readonly chainId?: string;
+  public readonly url?: string;
+  public readonly result?: unknown;
+
+  constructor(
+    /** One of `EtherscanErrorCode`, or a custom code of a subclass */
+    public code: EtherscanErrorCode | string,
+    message: string,
+    details: EtherscanErrorDetails = {}
+  ) {
     super(message);
     this.name = 'EtherscanAPIError';
+    this.module = details.module;
+    this.action = details.action;
+    this.chainId = details.chainId;
+    this.url = details.url;
+    this.result = details.result;
+  }
+}
+
+export class RateLimitError extends EtherscanAPIError {
+  constructor(message: string, details?: EtherscanErrorDetails) {
+    super(EtherscanErrorCode.RATE_LIMIT, message, details);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * The daily request budget of the API key (or of the SDK) is used up
+ */
+export class DailyLimitError extends RateLimitError {
+  constructor(message: string, details?: EtherscanErrorDetails) {
+    super(message, details);
+    this.name = 'DailyLimitError';
+    this.code = EtherscanErrorCode.DAILY_LIMIT_REACHED;
+  }
+}
+
+export class InvalidApiKeyError extends EtherscanAPIError {
+  constructor(message: string, details?: EtherscanErrorDetails) {
+    super(EtherscanErrorCode.INVALID_API_KEY, message, details);
+    this.name = 'InvalidApiKeyError';
+  }
+}
+
+export class ResultWindowTooLargeError extends EtherscanAPIError {
+  constructor(message: string, details?: EtherscanErrorDetails) {
+    super(EtherscanErrorCode.RESULT_WINDOW_TOO_LARGE, message, details);
+    this.name = 'ResultWindowTooLargeError';
+  }
+}
+
+export class QueryTimeoutError extends EtherscanAPIError {
+  constructor(message: string, details?: EtherscanErrorDetails) {
+    super(EtherscanErrorCode.QUERY_TIMEOUT, message, details);
+    this.name = 'QueryTimeoutError';
+  }
+}
+
+export class NotFoundError extends EtherscanAPIError {
+  constructor(message: string, details?: EtherscanErrorDetails) {
+    super(EtherscanErrorCode.NOT_FOUND, message, details);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * The response does not have the shape the SDK expects for the action
+ */
+export class ResponseShapeError extends EtherscanAPIError {
+  constructor(
+    message: string,
+    /** Path of the unexpected field, e.g. `result[0].blockNumber` */
+    public field: string,
+    details?: EtherscanErrorDetails
+  ) {
+    super(EtherscanErrorCode.RESPONSE_SHAPE_MISMATCH, message, details);
+    this.name = 'ResponseShapeError';
+  }
+}
+
+/**
+ * A failed request of a batch split into several requests
+ */
+export interface BatchFailure {
+  /** Inputs of the failed request, e.g. its addresses */
+  inputs: string[];
+  /** Error the request failed with */
+  error: unknown;
+}
+
+/**
+ * Some requests of a batch failed. The results of the others are kept, in
+ * input order, so they do not have to be fetched again.
+ */
+export class BatchError<T> extends EtherscanAPIError {
+  constructor(
+    message: string,
+    /** Results of the requests that succeeded */
+    public results: T[],
+    /** Requests that failed, with their error */
+    public failures: BatchFailure[],
+    details?: EtherscanErrorDetails
+  ) {
+    super(EtherscanErrorCode.PARTIAL_FAILURE, message, details);
+    this.name = 'BatchError';
+  }
+}
+
+/**
+ * Error object returned by the JSON-RPC proxy module
+ */
+export class JsonRpcError extends EtherscanAPIError {
+  constructor(
+    message: string,
+    public rpcCode: number,
+    public data?: unknown,
+    details?: EtherscanErrorDetails
+  ) {
+    super(EtherscanErrorCode.JSON_RPC_ERROR, message, details);
+    this.name = 'JsonRpcError';
   }
 }
 
@@ -16,7 +173,11 @@ export class EtherscanValidationError extends Error {
 }
 
 export class EtherscanNetworkError extends Error {
-  constructor(message: string) {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfter?: number
+  ) {
     super(message);
     this.name = 'EtherscanNetworkError';
   }
@@ -0,0 +1,120 @@
+/**
+ * Transport and middleware types
+ */
+
+import { APIResponse } from './base';
+import { ApiProvider, RetryOptions } from './client';
+
+/**
+ * HTTP methods used by the SDK
+ */
+export type HttpMethod = 'GET' | 'POST';
+
+/**
+ * Fully-built request handed to a transport
+ */
+export interface TransportRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  body?: string;
+  signal: AbortSignal;
+}
+
+/**
+ * Minimal response shape expected from a transport (a subset of the Fetch API `Response`)
+ */
+export interface TransportResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  headers: {
+    get(name: string): string | null;
+  };
+  json(): Promise<any>;
+}
+
+/**
+ * Function that performs the actual HTTP call (defaults to the global `fetch`)
+ */
+export type Transport = (
+  request: TransportRequest
+) => Promise<TransportResponse>;
+
+/**
+ * Position of a request in the rate limiter queue
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Per-call request options, accepted as the last argument of every module method
+ */
+export interface RequestOptions {
+  /** Signal to abort the request, including while it waits in the rate limiter queue */
+  signal?: AbortSignal;
+  /** Request timeout in milliseconds, overrides the SDK timeout */
+  timeout?: number;
+  /** Queue priority, `high` requests start before `normal` and `low` ones (defaults to 'normal') */
+  priority?: RequestPriority;
+  /** Set to `false` to bypass the response cache for this call */
+  cache?: boolean;
+  /** Retry policy for this call, overrides the SDK retry policy */
+  retry?: RetryOptions | boolean;
+  /**
+   * Set to `false` by methods that compute on the raw response
+   * @internal
+   */
+  normalize?: boolean;
+}
+
+/**
+ * Options accepted by the `iterate*` methods
+ */
+export interface IterateOptions extends RequestOptions {
+  /** Records fetched per request (defaults to the request `offset`, or 1000) */
+  pageSize?: number;
+}
+
+/**
+ * Request context shared by the middleware chain
+ */
+export interface RequestContext {
+  /** Etherscan API module (e.g. `account`) */
+  module: string;
+  /** Etherscan API action (e.g. `txlist`) */
+  action: string;
+  /** Request parameters, mutations are applied to the outgoing request */
+  params: Record<string, any>;
+  /** HTTP method of the request */
+  method: HttpMethod;
+  /** Chain ID the request is sent to */
+  chainId: string;
+  /** Explorer API the request is sent to */
+  provider: ApiProvider;
+  /** Base URL of the explorer API */
+  baseUrl: string;
+  /** Path appended to the base URL */
+  path: string;
+  /** Per-call request options */
+  options: RequestOptions;
+  /** Free-form storage for middleware to share data */
+  meta: Record<string, any>;
+}
+
+/**
+ * Request/response middleware. Call `next()` to continue the chain or
+ * return a response without calling it to short-circuit the request.
+ * @example
+ * ```ts
+ * const logger: Middleware = async (context, next) => {
+ *   const start = Date.now();
+ *   const response = await next();
+ *   console.log(`${context.module}.${context.action}`, Date.now() - start);
+ *   return response;
+ * };
+ * ```
+ */
+export type Middleware = (
+  context: RequestContext,
+  next: () => Promise<APIResponse<any>>
+) => Promise<APIResponse<any>>;
@@ -14,6 +14,8 @@ import { AtLeastOne } from './utils';
 export namespace Accounts {
   export type BalanceRequest = AccountsModule.BalanceRequest;
   export type BalanceMultiRequest = AccountsModule.BalanceMultiRequest;
+  export type BalanceHistoryRequest = AccountsModule.BalanceHistoryRequest;
+  export type BalanceAtRequest = AccountsModule.BalanceAtRequest;
   export type TransactionsRequest = AccountsModule.TransactionsRequest;
   export type InternalTransactionsRequest =
     AccountsModule.InternalTransactionsRequest;
@@ -24,8 +26,11 @@ export namespace Accounts {
     'address' | 'contractAddress'
   >;
   export type MinedBlockRequest = AccountsModule.MinedBlockRequest;
+  export type BeaconWithdrawalsRequest =
+    AccountsModule.BeaconWithdrawalsRequest;
 
   export type BalanceResponse = AccountsModule.BalanceResponse;
+  export type BalanceAtResponse = AccountsModule.BalanceAtResponse;
   export type TransactionsResponse = AccountsModule.TransactionsResponse;
   export type InternalTransactionsResponse =
     AccountsModule.InternalTransactionsResponse;
@@ -33,6 +38,24 @@ export namespace Accounts {
   export type NFTTransferResponse = AccountsModule.NFTTransferResponse;
   export type ERC1155TransferResponse = AccountsModule.ERC1155TransferResponse;
   export type MinedBlockResponse = AccountsModule.MinedBlockResponse;
+  export type BeaconWithdrawalResponse =
+    AccountsModule.BeaconWithdrawalResponse;
+  export type ParsedBalance = AccountsModule.ParsedBalance;
+  export type ParsedTransaction = AccountsModule.ParsedTransaction;
+  export type ParsedInternalTransaction =
+    AccountsModule.ParsedInternalTransaction;
+  export type ParsedTokenTransfer = AccountsModule.ParsedTokenTransfer;
+  export type ParsedNFTTransfer = AccountsModule.ParsedNFTTransfer;
+  export type ParsedERC1155Transfer = AccountsModule.ParsedERC1155Transfer;
+  export type ParsedMinedBlock = AccountsModule.ParsedMinedBlock;
+  export type ParsedBeaconWithdrawal = AccountsModule.ParsedBeaconWithdrawal;
+  export type ParsedBalanceAt = AccountsModule.ParsedBalanceAt;
+  export type ParsedActivityEntry = AccountsModule.ParsedActivityEntry;
+  export type ParsedActivityGroup = AccountsModule.ParsedActivityGroup;
+  export type ParsedActivityResponse = AccountsModule.ParsedActivityResponse;
+  export type ActivityEntry = AccountsModule.ActivityEntry;
+  export type ActivityGroup = AccountsModule.ActivityGroup;
+  export type ActivityResponse = AccountsModule.ActivityResponse;
 }
 
 export namespace Contracts {
@@ -66,6 +89,10 @@ export namespace Logs {
   >;
 
   export type LogsResponse = LogsModule.LogsResponse;
+  export type Log = LogsModule.Log;
+  export type ParsedLog = LogsModule.ParsedLog;
+  export type LogsProgress = LogsModule.LogsProgress;
+  export type IterateLogsOptions = LogsModule.IterateLogsOptions;
 }
 
 export namespace Proxy {
@@ -79,27 +106,60 @@ export namespace Proxy {
   export type LogResponse = ProxyModule.LogResponse;
   export type SyncingStatusResponse = ProxyModule.SyncingStatusResponse;
   export type WorkResponse = ProxyModule.WorkResponse;
+  export type ParsedBlock = ProxyModule.ParsedBlock;
+  export type ParsedTransaction = ProxyModule.ParsedProxyTransaction;
+  export type ParsedTransactionReceipt = ProxyModule.ParsedTransactionReceipt;
+  export type ParsedLog = ProxyModule.ParsedProxyLog;
 }
 
 export namespace Tokens {
   export type TokenBalanceRequest = TokensModule.TokenBalanceRequest;
+  export type TokenBalanceHistoryRequest =
+    TokensModule.TokenBalanceHistoryRequest;
+  export type TokenBalanceAtRequest = TokensModule.TokenBalanceAtRequest;
+  export type AddressTokenBalanceRequest =
+    TokensModule.AddressTokenBalanceRequest;
+  export type AddressNFTInventoryRequest =
+    TokensModule.AddressNFTInventoryRequest;
   export type TokenSupplyRequest = TokensModule.TokenSupplyRequest;
+  export type TokenSupplyHistoryRequest =
+    TokensModule.TokenSupplyHistoryRequest;
 
   export type TokenBalanceResponse = TokensModule.TokenBalanceResponse;
+  export type TokenBalanceAtResponse = TokensModule.TokenBalanceAtResponse;
   export type TokenSupplyResponse = TokensModule.TokenSupplyResponse;
   export type TokenHolderResponse = TokensModule.TokenHolderResponse;
+  export type TokenHolderShare = TokensModule.TokenHolderShare;
+  export type TopHoldersResponse = TokensModule.TopHoldersResponse;
   export type TokenInfoResponse = TokensModule.TokenInfoResponse;
+  export type AddressTokenBalanceResponse =
+    TokensModule.AddressTokenBalanceResponse;
+  export type AddressNFTBalanceResponse =
+    TokensModule.AddressNFTBalanceResponse;
+  export type AddressNFTInventoryResponse =
+    TokensModule.AddressNFTInventoryResponse;
+  export type PortfolioToken = TokensModule.PortfolioToken;
+  export type PortfolioNFT = TokensModule.PortfolioNFT;
+  export type PortfolioResponse = TokensModule.PortfolioResponse;
+  export type ParsedTokenHolder = TokensModule.ParsedTokenHolder;
+  export type ParsedTokenBalanceAt = TokensModule.ParsedTokenBalanceAt;
+  export type ParsedAddressTokenBalance =
+    TokensModule.ParsedAddressTokenBalance;
+  export type ParsedAddressNFTBalance = TokensModule.ParsedAddressNFTBalance;
 }
 
 export namespace Gas {
   export type GasPriceResponse = GasModule.GasPriceResponse;
   export type GasOracleResponse = GasModule.GasOracleResponse;
+  export type ParsedGasOracle = GasModule.ParsedGasOracle;
 }
 
 export namespace Stats {
   export type EthPriceResponse = StatsModule.EthPriceResponse;
   export type EthSupplyResponse = StatsModule.EthSupplyResponse;
   export type EthNodeSizeResponse = StatsModule.EthNodeSizeResponse;
+  export type ParsedEthPrice = StatsModule.ParsedEthPrice;
+  export type ParsedEthSupply = StatsModule.ParsedEthSupply;
 }
 
 export * from './_modules/accounts';
@@ -113,5 +173,8 @@ export * from './_modules/gas';
 export * from './_modules/stats';
 
 export * from './base';
+export * from './cache';
+export * from './chain';
 export * from './client';
 export * from './error';
+export * from './http';
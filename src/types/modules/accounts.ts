@@ -5,6 +5,7 @@ export interface AccountsModuleOptions
   extends EtherscanSDKOptions,
     PaginatedRequest,
     BlockRangeRequest {
-  address: string;
+  /** Address, or addresses for `getBalanceMulti` (the other methods use the first one) */
+  address: string | string[];
   tag?: string;
 }
@@ -0,0 +1,241 @@
+/**
+ * Pool of API keys with rotation, per-key rate limits and quarantine
+ */
+import {
+  ApiKeyProvider,
+  ApiKeySource,
+  ApiKeyStats,
+  ApiKeyStrategy,
+  DailyLimitError,
+  EtherscanAPIError,
+  EtherscanErrorCode,
+  InvalidApiKeyError,
+  RateLimitState,
+} from '../types';
+import { ERROR_MESSAGES } from '../constants';
+import { RateLimiter, RateLimiterOptions } from './rate-limiter';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of keys asked from a key provider before giving up on a request
+ */
+const MAX_PROVIDER_ATTEMPTS = 3;
+
+export interface ApiKeyEntry {
+  key: string;
+  limiter: RateLimiter;
+  requests: number;
+  errors: number;
+  quarantinedUntil?: number;
+  quarantineReason?: string;
+}
+
+/**
+ * Check if an error means the key is unusable (invalid or out of daily budget)
+ */
+export function isApiKeyError(error: unknown): boolean {
+  return (
+    error instanceof InvalidApiKeyError || error instanceof DailyLimitError
+  );
+}
+
+/**
+ * Mask an API key so it can be shown in stats and logs
+ */
+function maskApiKey(key: string): string {
+  return key.length > 8 ? `${key.slice(0, 4)}...${key.slice(-4)}` : '****';
+}
+
+export class ApiKeyPool {
+  private readonly entries = new Map<string, ApiKeyEntry>();
+  private readonly provider?: ApiKeyProvider;
+  private readonly strategy: ApiKeyStrategy;
+  private limiterOptions: RateLimiterOptions;
+  private cursor: number = 0;
+
+  constructor(
+    source: ApiKeySource | undefined,
+    strategy: ApiKeyStrategy,
+    limiterOptions: RateLimiterOptions
+  ) {
+    this.strategy = strategy;
+    this.limiterOptions = limiterOptions;
+
+    if (typeof source === 'function') {
+      this.provider = source;
+      return;
+    }
+
+    const keys = Array.isArray(source) ? source : [source || ''];
+    keys.forEach((key) => this.getEntry(key));
+  }
+
+  /**
+   * Change the limits of every key, keeping their daily usage and queues
+   */
+  public setRateLimit(options: RateLimiterOptions): void {
+    this.limiterOptions = options;
+    this.entries.forEach((entry) => entry.limiter.setOptions(options));
+  }
+
+  /**
+   * Pick the key for the next request
+   */
+  public async acquire(): Promise<ApiKeyEntry> {
+    if (this.provider) {
+      // Ask again when the provider hands out a key that was taken out of rotation
+      for (let attempt = 0; attempt < MAX_PROVIDER_ATTEMPTS; attempt++) {
+        const entry = this.getEntry(await this.provider());
+
+        if (this.isAvailable(entry)) {
+          return entry;
+        }
+      }
+
+      throw new EtherscanAPIError(
+        EtherscanErrorCode.NO_API_KEY_AVAILABLE,
+        ERROR_MESSAGES.NO_API_KEY_AVAILABLE
+      );
+    }
+
+    const available = Array.from(this.entries.values()).filter((entry) =>
+      this.isAvailable(entry)
+    );
+
+    if (available.length === 0) {
+      throw new EtherscanAPIError(
+        EtherscanErrorCode.NO_API_KEY_AVAILABLE,
+        ERROR_MESSAGES.NO_API_KEY_AVAILABLE
+      );
+    }
+
+    if (this.strategy === 'least-used') {
+      return available.reduce((best, entry) =>
+        this.load(entry) < this.load(best) ? entry : best
+      );
+    }
+
+    const entry = available[this.cursor % available.length];
+    this.cursor = (this.cursor + 1) % available.length;
+
+    return entry;
+  }
+
+  /**
+   * Check if at least one key can take requests
+   */
+  public hasAvailableKey(): boolean {
+    return (
+      !!this.provider ||
+      Array.from(this.entries.values()).some((entry) => this.isAvailable(entry))
+    );
+  }
+
+  /**
+   * Get the number of keys seen so far
+   */
+  public getKeyCount(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Record a successful request
+   */
+  public reportSuccess(entry: ApiKeyEntry): void {
+    entry.requests++;
+  }
+
+  /**
+   * Record a failed request, quarantining the key when it is invalid or out of daily budget
+   */
+  public reportFailure(entry: ApiKeyEntry, error: unknown): void {
+    entry.requests++;
+    entry.errors++;
+
+    if (error instanceof InvalidApiKeyError) {
+      entry.quarantinedUntil = Infinity;
+      entry.quarantineReason = error.code;
+    } else if (error instanceof DailyLimitError) {
+      // Daily limits reset at midnight UTC
+      entry.quarantinedUntil =
+        (Math.floor(Date.now() / DAY_IN_MS) + 1) * DAY_IN_MS;
+      entry.quarantineReason = error.code;
+    }
+  }
+
+  /**
+   * Get the combined rate limiter state of all keys
+   */
+  public getState(): Omit<RateLimitState, 'enabled'> {
+    const states = Array.from(this.entries.values()).map((entry) =>
+      entry.limiter.getState()
+    );
+    const sum = (values: Array<number | undefined>) =>
+      values.some((value) => value === undefined)
+        ? undefined
+        : values.reduce<number>((total, value) => total + value!, 0);
+
+    return {
+      requestsPerSecond: sum(states.map((state) => state.requestsPerSecond))!,
+      requestsPerDay: sum(states.map((state) => state.requestsPerDay)),
+      tokensRemaining: sum(states.map((state) => state.tokensRemaining))!,
+      queueDepth: sum(states.map((state) => state.queueDepth))!,
+      dailyUsage: sum(states.map((state) => state.dailyUsage))!,
+      dailyRemaining: sum(states.map((state) => state.dailyRemaining)),
+    };
+  }
+
+  /**
+   * Get usage statistics for every key, with the keys masked
+   */
+  public getStats(): ApiKeyStats[] {
+    return Array.from(this.entries.values()).map((entry) => {
+      const quarantined = !this.isAvailable(entry) && !!entry.quarantinedUntil;
+
+      return {
+        key: maskApiKey(entry.key),
+        requests: entry.requests,
+        errors: entry.errors,
+        dailyUsage: entry.limiter.getState().dailyUsage,
+        quarantined,
+        quarantinedUntil: quarantined ? entry.quarantinedUntil : undefined,
+        quarantineReason: quarantined ? entry.quarantineReason : undefined,
+      };
+    });
+  }
+
+  private getEntry(key: string): ApiKeyEntry {
+    let entry = this.entries.get(key);
+
+    if (!entry) {
+      entry = {
+        key,
+        limiter: new RateLimiter(this.limiterOptions),
+        requests: 0,
+        errors: 0,
+      };
+      this.entries.set(key, entry);
+    }
+
+    return entry;
+  }
+
+  private isAvailable(entry: ApiKeyEntry): boolean {
+    if (entry.quarantinedUntil !== undefined) {
+      if (entry.quarantinedUntil > Date.now()) {
+        return false;
+      }
+
+      entry.quarantinedUntil = undefined;
+      entry.quarantineReason = undefined;
+    }
+
+    return entry.limiter.getState().dailyRemaining !== 0;
+  }
+
+  private load(entry: ApiKeyEntry): number {
+    const state = entry.limiter.getState();
+    return state.dailyUsage + state.queueDepth;
+  }
+}
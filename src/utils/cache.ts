@@ -0,0 +1,157 @@
+/**
+ * Response cache built on top of the middleware pipeline
+ */
+import {
+  APIResponse,
+  CacheOptions,
+  CacheStore,
+  Middleware,
+  RequestContext,
+} from '../types';
+import { DEFAULT_CACHE_MAX_ENTRIES, DEFAULT_CACHE_TTLS } from '../constants';
+
+/**
+ * In-memory cache store that evicts the least recently used entry once full
+ */
+export class MemoryCacheStore implements CacheStore {
+  private readonly maxEntries: number;
+  private readonly entries = new Map<
+    string,
+    { value: APIResponse<any>; expiresAt: number }
+  >();
+
+  constructor(maxEntries: number = DEFAULT_CACHE_MAX_ENTRIES) {
+    this.maxEntries = maxEntries;
+  }
+
+  public get(key: string): APIResponse<any> | undefined {
+    const entry = this.entries.get(key);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert to mark the entry as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  public set(key: string, value: APIResponse<any>, ttl: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  public delete(key: string): void {
+    this.entries.delete(key);
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
+
+/**
+ * Build a cache key from the API, chain, module, action and params (excluding the API key)
+ */
+export function createCacheKey(context: RequestContext): string {
+  const params = Object.keys(context.params)
+    .filter(
+      (key) =>
+        key !== 'apikey' &&
+        key !== 'module' &&
+        key !== 'action' &&
+        context.params[key] !== undefined
+    )
+    .sort()
+    .map((key) => `${key}=${String(context.params[key])}`)
+    .join('&');
+
+  return `${context.provider}:${context.baseUrl}:${context.chainId}:${context.module}.${context.action}?${params}`;
+}
+
+/**
+ * Check if a response holds final data worth caching
+ */
+function isCacheable(
+  context: RequestContext,
+  response: APIResponse<any>
+): boolean {
+  if (!response || 'error' in response) {
+    return false;
+  }
+
+  // JSON-RPC proxy responses have no status field
+  if ('status' in response && response.status !== '1') {
+    return false;
+  }
+
+  const { result } = response;
+
+  if (result === null || result === undefined) {
+    return false;
+  }
+
+  switch (`${context.module}.${context.action}`) {
+    // Pending transactions have no block yet
+    case 'proxy.eth_getTransactionByHash':
+    case 'proxy.eth_getTransactionReceipt':
+      return Boolean(result.blockNumber);
+    // Unverified contracts come back with an empty source code
+    case 'contract.getsourcecode':
+      return Array.isArray(result) && Boolean(result[0]?.SourceCode);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Create a middleware that caches GET responses with per-action TTLs
+ */
+export function createCacheMiddleware(
+  options: CacheOptions,
+  store: CacheStore
+): Middleware {
+  const ttls = { ...DEFAULT_CACHE_TTLS, ...(options.ttls || {}) };
+  const defaultTtl = options.defaultTtl ?? 0;
+
+  return async (context, next) => {
+    const actionKey = `${context.module}.${context.action}`;
+    const ttl = actionKey in ttls ? ttls[actionKey] : defaultTtl;
+
+    if (
+      context.method !== 'GET' ||
+      context.options.cache === false ||
+      !(ttl > 0)
+    ) {
+      return next();
+    }
+
+    const key = createCacheKey(context);
+    const cached = await store.get(key);
+
+    if (cached !== undefined) {
+      context.meta.cacheHit = true;
+      return cached;
+    }
+
+    const response = await next();
+
+    if (isCacheable(context, response)) {
+      await store.set(key, response, ttl);
+    }
+
+    return response;
+  };
+}
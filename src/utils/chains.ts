@@ -0,0 +1,133 @@
+/**
+ * Registry of the built-in networks and of chains added at runtime
+ */
+import {
+  ChainDefinition,
+  ChainMetadata,
+  ChainName,
+  EtherscanValidationError,
+  Network,
+} from '../types';
+import {
+  CHAIN_METADATA,
+  SUPPORTED_CHAINS,
+  V1_API_URLS,
+  V2_API_CHAIN_IDS,
+} from '../constants';
+
+const registry = new Map<string, ChainDefinition>();
+
+/**
+ * Check if a network is one of the built-in networks
+ */
+function isBuiltInChain(network: string): network is Network {
+  return SUPPORTED_CHAINS.includes(network as Network);
+}
+
+/**
+ * Add a chain so it can be used as `network`, e.g. a newly launched chain or
+ * a private Etherscan-compatible explorer. Registering a name again replaces it.
+ * @throws {EtherscanValidationError} if the name is empty or a built-in network, or the chain id is invalid
+ */
+export function registerChain(chain: ChainDefinition): void {
+  if (!chain.name) {
+    throw new EtherscanValidationError('Chain name is required');
+  }
+
+  if (isBuiltInChain(chain.name)) {
+    throw new EtherscanValidationError(
+      `${chain.name} is a built-in network and cannot be registered`
+    );
+  }
+
+  if (!/^\d+$/.test(String(chain.chainId))) {
+    throw new EtherscanValidationError(
+      `Invalid chain id: ${chain.chainId}. Must be a positive integer.`
+    );
+  }
+
+  registry.set(chain.name, { ...chain, chainId: String(chain.chainId) });
+}
+
+/**
+ * Get a chain added with `registerChain()`
+ */
+export function getRegisteredChain(
+  network: ChainName
+): ChainDefinition | undefined {
+  return registry.get(network);
+}
+
+/**
+ * Check if a network is built in or registered
+ */
+export function isSupportedChain(network: ChainName): boolean {
+  return isBuiltInChain(network) || registry.has(network);
+}
+
+/**
+ * Get the chain id of a built-in or registered network
+ */
+export function resolveChainId(network: ChainName): string | undefined {
+  if (isBuiltInChain(network)) {
+    return V2_API_CHAIN_IDS[network];
+  }
+
+  const chain = registry.get(network);
+  return chain ? String(chain.chainId) : undefined;
+}
+
+/**
+ * Get the V1 API URL of a built-in or registered network
+ */
+export function resolveV1Url(network: ChainName): string | undefined {
+  if (isBuiltInChain(network)) {
+    return V1_API_URLS[network];
+  }
+
+  return registry.get(network)?.v1Url;
+}
+
+/**
+ * Get the metadata of a built-in or registered network
+ */
+export function getChainMetadata(
+  network: ChainName
+): ChainMetadata | undefined {
+  if (isBuiltInChain(network)) {
+    return CHAIN_METADATA[network];
+  }
+
+  const chain = registry.get(network);
+
+  if (!chain) {
+    return undefined;
+  }
+
+  return {
+    name: chain.name,
+    chainId: Number(chain.chainId),
+    nativeCurrency:
+      chain.nativeCurrency ||
+      CHAIN_METADATA[Network.ETH_MAINNET].nativeCurrency,
+    explorerUrl: (chain.explorerUrl || '').replace(/\/$/, ''),
+    isTestnet: chain.isTestnet === true,
+    isDeprecated: chain.isDeprecated === true,
+    supportsEip1559: chain.supportsEip1559 !== false,
+  };
+}
+
+/**
+ * Find the network name of a chain id, registered chains first
+ */
+export function findChainName(chainId: number | string): string | undefined {
+  const id = String(chainId);
+
+  for (const chain of registry.values()) {
+    if (String(chain.chainId) === id) {
+      return chain.name;
+    }
+  }
+
+  return SUPPORTED_CHAINS.find((network) => resolveChainId(network) === id);
+}
@@ -0,0 +1,100 @@
+/**
+ * Map Etherscan failure responses to typed errors
+ */
+import {
+  DailyLimitError,
+  EtherscanAPIError,
+  EtherscanErrorCode,
+  EtherscanErrorDetails,
+  InvalidApiKeyError,
+  JsonRpcError,
+  NotFoundError,
+  QueryTimeoutError,
+  RateLimitError,
+  ResultWindowTooLargeError,
+} from '../types';
+
+/**
+ * Replace the API key in a URL so it can be safely logged or attached to errors
+ */
+export function redactApiKey(url: string): string {
+  return url.replace(/([?&]apikey=)[^&#]*/gi, '$1REDACTED');
+}
+
+/**
+ * Build the typed error for a failed response, or return `undefined` if the
+ * response holds data
+ */
+export function getResponseError(
+  data: any,
+  details: EtherscanErrorDetails
+): EtherscanAPIError | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+
+  // JSON-RPC errors from the proxy module
+  if (data.error && typeof data.error === 'object') {
+    return new JsonRpcError(
+      String(data.error.message || 'JSON-RPC error'),
+      Number(data.error.code),
+      data.error.data,
+      details
+    );
+  }
+
+  if (data.status !== '0' || typeof data.message !== 'string') {
+    return undefined;
+  }
+
+  // The human readable reason is in `result` for NOTOK responses
+  const message =
+    typeof data.result === 'string' && data.result ? data.result : data.message;
+  const text = `${data.message} ${message}`;
+  const errorDetails = { ...details, result: data.result };
+
+  if (/rate limit/i.test(text)) {
+    return /daily/i.test(text)
+      ? new DailyLimitError(message, errorDetails)
+      : new RateLimitError(message, errorDetails);
+  }
+
+  if (/invalid api key/i.test(text)) {
+    return new InvalidApiKeyError(message, errorDetails);
+  }
+
+  if (/result window is too large/i.test(text)) {
+    return new ResultWindowTooLargeError(message, errorDetails);
+  }
+
+  if (/query timeout/i.test(text)) {
+    return new QueryTimeoutError(message, errorDetails);
+  }
+
+  if (/deprecated/i.test(text)) {
+    return new EtherscanAPIError(
+      EtherscanErrorCode.DEPRECATED_ENDPOINT,
+      message,
+      errorDetails
+    );
+  }
+
+  // Actions missing on Blockscout or Routescan
+  if (/unknown (action|module)|invalid (action|module) name/i.test(text)) {
+    return new EtherscanAPIError(
+      EtherscanErrorCode.UNSUPPORTED_ENDPOINT,
+      message,
+      errorDetails
+    );
+  }
+
+  if (/^no .*found/i.test(data.message)) {
+    return new NotFoundError(data.message, errorDetails);
+  }
+
+  return new EtherscanAPIError(
+    EtherscanErrorCode.API_ERROR,
+    message,
+    errorDetails
+  );
+}
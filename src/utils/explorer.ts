@@ -0,0 +1,63 @@
+/**
+ * Links to the explorer web pages of a chain
+ */
+import { EtherscanValidationError } from '../types';
+
+export class ExplorerLinks {
+  constructor(
+    private readonly explorerUrl: string | undefined,
+    private readonly network: string
+  ) {}
+
+  /**
+   * Get the explorer page of a transaction
+   * @param {string} hash - Transaction hash
+   * @returns {string} The page URL
+   * @throws {EtherscanValidationError} if the chain has no known explorer
+   */
+  public txUrl(hash: string): string {
+    return this.url(`tx/${hash}`);
+  }
+
+  /**
+   * Get the explorer page of an address
+   * @param {string} address - Account or contract address
+   * @returns {string} The page URL
+   * @throws {EtherscanValidationError} if the chain has no known explorer
+   */
+  public addressUrl(address: string): string {
+    return this.url(`address/${address}`);
+  }
+
+  /**
+   * Get the explorer page of a token, optionally filtered on a holder
+   * @param {string} contractAddress - Token contract address
+   * @param {string} [holder] - Address whose transfers and balance are shown
+   * @returns {string} The page URL
+   * @throws {EtherscanValidationError} if the chain has no known explorer
+   */
+  public tokenUrl(contractAddress: string, holder?: string): string {
+    const url = this.url(`token/${contractAddress}`);
+    return holder ? `${url}?a=${holder}` : url;
+  }
+
+  /**
+   * Get the explorer page of a block
+   * @param {number | string} block - Block number
+   * @returns {string} The page URL
+   * @throws {EtherscanValidationError} if the chain has no known explorer
+   */
+  public blockUrl(block: number | string): string {
+    return this.url(`block/${block}`);
+  }
+
+  private url(path: string): string {
+    if (!this.explorerUrl) {
+      throw new EtherscanValidationError(
+        `No explorer URL for ${this.network}, pass explorerUrl to registerChain()`
+      );
+    }
+
+    return `${this.explorerUrl}/${path}`;
+  }
+}
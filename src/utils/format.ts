@@ -0,0 +1,46 @@
+/**
+ * Format token and Ether amounts for display
+ */
+import { EtherscanValidationError } from '../types';
+
+/**
+ * Format an integer amount in base units as a decimal string, e.g. Wei to Ether
+ * @param {string | number | bigint} value - Amount in base units
+ * @param {number} [decimals=18] - Number of decimals of the token
+ * @returns {string} The amount in whole units, without trailing zeros
+ * @throws {EtherscanValidationError} if the value is not an integer or decimals is invalid
+ * @example
+ * ```ts
+ * formatUnits('1500000000000000000'); // '1.5'
+ * formatUnits('1000000', 6); // '1'
+ * ```
+ */
+export function formatUnits(
+  value: string | number | bigint,
+  decimals: number = 18
+): string {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new EtherscanValidationError(
+      `Invalid decimals: ${decimals}. Must be a positive integer.`
+    );
+  }
+
+  let amount: bigint;
+
+  try {
+    amount = BigInt(value);
+  } catch {
+    throw new EtherscanValidationError(
+      `Invalid amount: ${value}. Must be an integer.`
+    );
+  }
+
+  const negative = amount < BigInt(0);
+  const digits = (negative ? -amount : amount)
+    .toString()
+    .padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+
+  return `${negative ? '-' : ''}${whole}${fraction ? `.${fraction}` : ''}`;
+}
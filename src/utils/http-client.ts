@@ -3,28 +3,87 @@
  */
 import {
   EtherscanAPIError,
+  EtherscanErrorDetails,
   EtherscanNetworkError,
+  NotFoundError,
+  ResponseShapeError,
   APIResponse,
+  ApiKeySource,
+  ApiProvider,
+  ApiKeyStats,
+  ApiKeyStrategy,
+  HttpMethod,
+  Middleware,
+  RequestContext,
+  RequestOptions,
+  RateLimitState,
+  RetryOptions,
+  Transport,
+  TransportRequest,
+  TransportResponse,
 } from '../types';
+import {
+  ResolvedRetryOptions,
+  getRetryDelay,
+  isRetryableError,
+  parseRetryAfter,
+  resolveRetryOptions,
+  sleep,
+} from './retry';
+import { fetchTransport } from './transport';
+import { ERROR_MESSAGES, LIST_ACTIONS } from '../constants';
+import { RateLimiterOptions } from './rate-limiter';
+import { ApiKeyPool, isApiKeyError } from './api-key-pool';
+import { getResponseError, redactApiKey } from './errors';
+import { RESPONSE_SCHEMAS } from './response-schemas';
+import { adaptParams, adaptResponse } from './providers';
 
 export interface HttpClientOptions {
   baseUrl: string;
+  apiKey?: ApiKeySource;
+  apiKeyStrategy?: ApiKeyStrategy;
+  chainId?: string;
   timeout?: number;
   headers?: Record<string, string>;
+  retry?: RetryOptions | boolean;
+  transport?: Transport;
+  dedupe?: boolean;
+  throwOnNotFound?: boolean;
+  validateResponses?: boolean | 'warn';
+  provider?: ApiProvider;
+}
+
+/**
+ * State shared by the clients of one SDK across chains
+ */
+export interface HttpClientSharedState {
+  keyPool: ApiKeyPool;
+  middleware: Middleware[];
+  innerMiddleware: Middleware[];
+  inFlight: Map<string, Promise<APIResponse<any>>>;
+  settings: { timeout: number; rateLimitEnabled: boolean };
 }
 
+type HttpRequest = Omit<TransportRequest, 'signal'>;
+
 export class HttpClient {
   private readonly baseUrl: string;
-  private readonly timeout: number;
+  private readonly chainId: string;
   private readonly headers: Record<string, string>;
-  private rateLimitEnabled: boolean = true;
-  private maxRequestsPerSecond: number = 5;
-  private requestQueue: Array<() => Promise<void>> = [];
-  private processingQueue: boolean = false;
-  private requestsThisSecond: number = 0;
-  private rateLimitTimer: NodeJS.Timeout | null = null;
-
-  constructor(options: HttpClientOptions) {
+  private readonly retryOptions: ResolvedRetryOptions;
+  private readonly transport: Transport;
+  private readonly middleware: Middleware[];
+  /** Middleware that run after every middleware added with `use`, such as the cache */
+  private readonly innerMiddleware: Middleware[];
+  private readonly dedupeEnabled: boolean;
+  private readonly throwOnNotFound: boolean;
+  private readonly validateResponses: boolean | 'warn';
+  private readonly provider: ApiProvider;
+  private readonly inFlight: Map<string, Promise<APIResponse<any>>>;
+  private readonly settings: HttpClientSharedState['settings'];
+  private readonly keyPool: ApiKeyPool;
+
+  constructor(options: HttpClientOptions, shared?: HttpClientSharedState) {
     // Validate baseUrl required
     if (!options.baseUrl) {
       throw new Error('baseUrl is required');
@@ -36,8 +95,67 @@ export class HttpClient {
     }
 
     this.baseUrl = options.baseUrl;
-    this.timeout = options.timeout || 30000;
+    this.chainId = options.chainId || '';
     this.headers = options.headers || {};
+    this.retryOptions = resolveRetryOptions(options.retry);
+    this.transport = options.transport || fetchTransport;
+    this.dedupeEnabled = options.dedupe !== false;
+    this.throwOnNotFound = options.throwOnNotFound === true;
+    this.validateResponses = options.validateResponses || false;
+    this.provider = options.provider || 'etherscan';
+    this.keyPool =
+      shared?.keyPool ||
+      new ApiKeyPool(options.apiKey, options.apiKeyStrategy || 'round-robin', {
+        requestsPerSecond: 5,
+      });
+    this.middleware = shared?.middleware || [];
+    this.innerMiddleware = shared?.innerMiddleware || [];
+    this.inFlight = shared?.inFlight || new Map();
+    this.settings = shared?.settings || {
+      timeout: options.timeout || 30000,
+      rateLimitEnabled: true,
+    };
+  }
+
+  /**
+   * Create a client for another chain that shares the API keys, rate limiters,
+   * middleware and settings of this client
+   */
+  public forChain(baseUrl: string, chainId: string): HttpClient {
+    return new HttpClient(
+      {
+        baseUrl,
+        chainId,
+        headers: this.headers,
+        retry: this.retryOptions,
+        transport: this.transport,
+        dedupe: this.dedupeEnabled,
+        throwOnNotFound: this.throwOnNotFound,
+        validateResponses: this.validateResponses,
+        provider: this.provider,
+      },
+      {
+        keyPool: this.keyPool,
+        middleware: this.middleware,
+        innerMiddleware: this.innerMiddleware,
+        inFlight: this.inFlight,
+        settings: this.settings,
+      }
+    );
+  }
+
+  /**
+   * Get the chain id requests are sent to
+   */
+  public getChainId(): string {
+    return this.chainId;
+  }
+
+  /**
+   * Set the default request timeout
+   */
+  public setTimeout(timeout: number): void {
+    this.settings.timeout = timeout;
   }
 
   /**
@@ -45,10 +163,42 @@ export class HttpClient {
    */
   public setRateLimit(
     enabled: boolean,
-    maxRequestsPerSecond: number = 5
+    options: RateLimiterOptions = { requestsPerSecond: 5 }
   ): void {
-    this.rateLimitEnabled = enabled;
-    this.maxRequestsPerSecond = maxRequestsPerSecond;
+    this.settings.rateLimitEnabled = enabled;
+    this.keyPool.setRateLimit(options);
+  }
+
+  /**
+   * Get the current rate limiter state
+   */
+  public getRateLimitState(): RateLimitState {
+    return {
+      enabled: this.settings.rateLimitEnabled,
+      ...this.keyPool.getState(),
+    };
+  }
+
+  /**
+   * Get usage statistics for every API key
+   */
+  public getApiKeyStats(): ApiKeyStats[] {
+    return this.keyPool.getStats();
+  }
+
+  /**
+   * Add a middleware to the end of the request pipeline
+   */
+  public use(middleware: Middleware): void {
+    this.middleware.push(middleware);
+  }
+
+  /**
+   * Add a middleware that runs after the ones added with `use`, right before
+   * the request is sent
+   */
+  public useInner(middleware: Middleware): void {
+    this.innerMiddleware.push(middleware);
   }
 
   /**
@@ -56,26 +206,57 @@ export class HttpClient {
    */
   public async get<T>(
     path: string,
-    params: Record<string, string | number | boolean | undefined> = {}
+    params: Record<string, string | number | boolean | undefined> = {},
+    options: RequestOptions = {}
   ): Promise<T> {
-    // Build query string from parameters
-    const queryParams = Object.entries(params)
-      .filter(([_, value]) => value !== undefined)
-      .map(
-        ([key, value]) =>
-          `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
-      )
-      .join('&');
-
-    const formattedPath = path.startsWith('/') ? path.slice(1) : path;
-    const baseUrlWithPath = `${this.baseUrl}${formattedPath}`;
-    const formattedQueryParams = queryParams
-      ? (baseUrlWithPath.includes('?') ? '&' : '?') + queryParams
-      : '';
+    const context = this.createContext('GET', path, params, options);
 
-    const url = `${baseUrlWithPath}${formattedQueryParams}`;
+    return this.runMiddleware<T>(context, () => {
+      // Build query string from parameters, with the provider action names
+      const queryParams = Object.entries(
+        adaptParams(this.provider, context.params)
+      )
+        .filter(([_, value]) => value !== undefined)
+        .map(
+          ([key, value]) =>
+            `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`
+        )
+        .join('&');
+
+      const formattedPath = context.path.startsWith('/')
+        ? context.path.slice(1)
+        : context.path;
+      const baseUrlWithPath = `${this.baseUrl}${formattedPath}`;
+      const formattedQueryParams = queryParams
+        ? (baseUrlWithPath.includes('?') ? '&' : '?') + queryParams
+        : '';
+
+      const url = `${baseUrlWithPath}${formattedQueryParams}`;
+
+      const send = () =>
+        this.request<APIResponse<any>>(
+          {
+            url,
+            method: 'GET',
+            headers: { ...this.headers },
+          },
+          context
+        );
 
-    return this.request<T>(url);
+      const { signal, retry, priority, timeout } = context.options;
+
+      // Calls with their own abort signal must not cancel each other, and calls
+      // with their own retry policy must not inherit another one. Priority and
+      // timeout are part of the key so a call never waits on a slower one.
+      return signal || retry !== undefined
+        ? send()
+        : this.dedupe(
+            `${priority || 'normal'} ${
+              timeout || this.settings.timeout
+            } ${url}`,
+            send
+          );
+    });
   }
 
   /**
@@ -83,69 +264,315 @@ export class HttpClient {
    */
   public async post<T>(
     path: string,
-    data: Record<string, any> = {}
+    data: Record<string, any> = {},
+    options: RequestOptions = {}
   ): Promise<T> {
-    const url = `${this.baseUrl}${path}`;
+    const context = this.createContext('POST', path, data, options);
+
+    return this.runMiddleware<T>(context, () =>
+      this.request<APIResponse<any>>(
+        {
+          url: `${this.baseUrl}${context.path}`,
+          method: 'POST',
+          headers: {
+            ...this.headers,
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(context.params),
+        },
+        context
+      )
+    );
+  }
 
-    const options: RequestInit = {
-      method: 'POST',
-      headers: {
-        ...this.headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
+  /**
+   * Build the context handed to the middleware chain
+   */
+  private createContext(
+    method: HttpMethod,
+    path: string,
+    params: Record<string, any>,
+    options: RequestOptions
+  ): RequestContext {
+    return {
+      module: String(params.module || ''),
+      action: String(params.action || ''),
+      params: { ...params },
+      chainId: this.chainId,
+      provider: this.provider,
+      baseUrl: this.baseUrl,
+      method,
+      path,
+      options,
+      meta: {},
+    };
+  }
+
+  /**
+   * Run the middleware chain in registration order, ending with the actual request
+   */
+  private async runMiddleware<T>(
+    context: RequestContext,
+    send: () => Promise<APIResponse<any>>
+  ): Promise<T> {
+    const chain = this.middleware.concat(this.innerMiddleware);
+    const dispatch = (index: number): Promise<APIResponse<any>> => {
+      const middleware = chain[index];
+
+      if (!middleware) {
+        return send();
+      }
+
+      return middleware(context, () => dispatch(index + 1));
     };
 
-    return this.request<T>(url, options);
+    return (await dispatch(0)) as unknown as T;
+  }
+
+  /**
+   * Share a single in-flight request between identical concurrent calls
+   */
+  private dedupe(
+    key: string,
+    send: () => Promise<APIResponse<any>>
+  ): Promise<APIResponse<any>> {
+    if (!this.dedupeEnabled) {
+      return send();
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const promise = send().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+
+    return promise;
+  }
+
+  /**
+   * Make a request, retrying transient failures with exponential backoff
+   */
+  private async request<T>(
+    request: HttpRequest,
+    context: RequestContext
+  ): Promise<T> {
+    const { options } = context;
+    const retryOptions =
+      options.retry !== undefined
+        ? resolveRetryOptions(options.retry)
+        : this.retryOptions;
+    let attempt = 1;
+    // Every key of a static pool may be tried once, and key providers as often as attempts are allowed
+    const maxKeySwitches = Math.max(
+      retryOptions.maxAttempts,
+      this.keyPool.getKeyCount()
+    );
+    let keySwitches = 0;
+
+    while (true) {
+      try {
+        return await this.dispatch<T>(request, context);
+      } catch (error) {
+        // Never retry a request the caller gave up on
+        if (options.signal?.aborted) {
+          throw error;
+        }
+
+        // The key was taken out of rotation, try again right away with another one
+        if (
+          isApiKeyError(error) &&
+          keySwitches < maxKeySwitches &&
+          this.keyPool.hasAvailableKey()
+        ) {
+          keySwitches++;
+          continue;
+        }
+
+        if (
+          attempt >= retryOptions.maxAttempts ||
+          !isRetryableError(error, retryOptions)
+        ) {
+          throw error;
+        }
+
+        await sleep(
+          getRetryDelay(attempt, error, retryOptions),
+          options.signal
+        );
+        attempt++;
+      }
+    }
+  }
+
+  /**
+   * Make a request with the next API key, rate limited per key if enabled
+   */
+  private async dispatch<T>(
+    request: HttpRequest,
+    context: RequestContext
+  ): Promise<T> {
+    const { options } = context;
+    const entry = await this.keyPool.acquire();
+    const send = () =>
+      this.makeRequest<T>(this.withApiKey(request, entry.key), context);
+
+    try {
+      const result = this.settings.rateLimitEnabled
+        ? await entry.limiter.schedule<T>(send, {
+            priority: options.priority,
+            signal: options.signal,
+          })
+        : await send();
+
+      this.keyPool.reportSuccess(entry);
+      return result;
+    } catch (error) {
+      this.keyPool.reportFailure(entry, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Add the API key to the query string (GET) or the body (POST)
+   */
+  private withApiKey(request: HttpRequest, apiKey: string): HttpRequest {
+    if (!apiKey) {
+      return request;
+    }
+
+    if (request.method === 'POST') {
+      return {
+        ...request,
+        body: JSON.stringify({
+          ...JSON.parse(request.body || '{}'),
+          apikey: apiKey,
+        }),
+      };
+    }
+
+    const separator = request.url.includes('?') ? '&' : '?';
+
+    return {
+      ...request,
+      url: `${request.url}${separator}apikey=${encodeURIComponent(apiKey)}`,
+    };
   }
 
   /**
-   * Make a request with rate limiting if enabled
+   * Check the response result against the schema of the action
    */
-  private async request<T>(url: string, options: RequestInit = {}): Promise<T> {
-    if (this.rateLimitEnabled) {
-      return this.rateLimit<T>(() => this.makeRequest<T>(url, options));
+  private validateResponse(data: any, details: EtherscanErrorDetails): void {
+    const schema = RESPONSE_SCHEMAS[`${details.module}.${details.action}`];
+    const issue = schema && schema(data?.result, 'result');
+
+    if (!issue) {
+      return;
+    }
+
+    const error = new ResponseShapeError(
+      `Unexpected response shape for ${details.module}.${details.action}: expected ${issue.expected} at ${issue.path}, received ${issue.received}`,
+      issue.path,
+      { ...details, result: data?.result }
+    );
+
+    if (this.validateResponses === 'warn') {
+      console.warn(`[etherscan-sdk] ${error.message}`);
+      return;
     }
 
-    return this.makeRequest<T>(url, options);
+    throw error;
+  }
+
+  /**
+   * Build the error of a failed HTTP response
+   */
+  private statusError(response: TransportResponse): EtherscanNetworkError {
+    return new EtherscanNetworkError(
+      `Request failed with status ${response.status}: ${response.statusText}`,
+      response.status,
+      parseRetryAfter(response.headers.get('Retry-After'))
+    );
   }
 
   /**
    * Make the actual HTTP request
    */
   private async makeRequest<T>(
-    url: string,
-    options: RequestInit = {}
+    request: HttpRequest,
+    context: RequestContext
   ): Promise<T> {
-    // Add timeout support with AbortController
+    const { signal } = context.options;
+    const timeout = context.options.timeout || this.settings.timeout;
+
+    // Add timeout and caller abort support with AbortController
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    const onAbort = () => controller.abort();
+
+    if (signal?.aborted) {
+      controller.abort();
+    } else {
+      signal?.addEventListener('abort', onAbort);
+    }
 
     try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          ...this.headers,
-          ...(options.headers || {}),
-        },
+      const response = await this.transport({
+        ...request,
         signal: controller.signal,
       });
 
-      if (!response.ok) {
-        throw new EtherscanNetworkError(
-          `Request failed with status ${response.status}: ${response.statusText}`
-        );
+      const details = {
+        module: context.module,
+        action: context.action,
+        chainId: context.chainId,
+        url: redactApiKey(request.url),
+      };
+
+      // Blockscout and Routescan send API errors with a 4xx status
+      const providerError =
+        !response.ok &&
+        this.provider !== 'etherscan' &&
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 429;
+
+      if (!response.ok && !providerError) {
+        throw this.statusError(response);
       }
 
-      const data = await response.json();
+      const data = providerError
+        ? await response.json().catch(() => undefined)
+        : adaptResponse(
+            this.provider,
+            context.module,
+            context.action,
+            await response.json()
+          );
+
+      // Turn failure responses into typed errors
+      const error = getResponseError(data, details);
 
-      // Check if this is an Etherscan API response with error
+      // List actions without records are just empty lists
       if (
-        this.isAPIResponse(data) &&
-        data.status === '0' &&
-        data.message.startsWith('NOTOK')
+        error instanceof NotFoundError &&
+        !this.throwOnNotFound &&
+        LIST_ACTIONS.includes(`${context.module}.${context.action}`)
       ) {
-        throw new EtherscanAPIError(data.result, data.message);
+        return { ...data, result: [] } as T;
+      }
+
+      if (error) {
+        throw error;
+      }
+
+      if (providerError) {
+        throw this.statusError(response);
+      }
+
+      if (this.validateResponses) {
+        this.validateResponse(data, details);
       }
 
       return data as T;
@@ -157,11 +584,13 @@ export class HttpClient {
         throw error;
       }
 
-      // Handle timeout errors
-      if (error instanceof DOMException && error.name === 'AbortError') {
-        throw new EtherscanNetworkError(
-          `Request timed out after ${this.timeout}ms`
-        );
+      // Handle aborted and timed out requests
+      if ((error as Error).name === 'AbortError') {
+        if (signal?.aborted) {
+          throw new EtherscanNetworkError(ERROR_MESSAGES.REQUEST_ABORTED);
+        }
+
+        throw new EtherscanNetworkError(`Request timed out after ${timeout}ms`);
       }
 
       throw new EtherscanNetworkError(
@@ -169,81 +598,7 @@ export class HttpClient {
       );
     } finally {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
     }
   }
-
-  /**
-   * Apply rate limiting to API requests
-   */
-  private async rateLimit<T>(fn: () => Promise<T>): Promise<T> {
-    return new Promise<T>((resolve, reject) => {
-      const executeRequest = async () => {
-        try {
-          // Check if we're at the rate limit
-          if (this.requestsThisSecond >= this.maxRequestsPerSecond) {
-            // Wait until the next second
-            await new Promise((r) => setTimeout(r, 1000));
-            this.requestsThisSecond = 0;
-          }
-
-          // Increment request counter
-          this.requestsThisSecond++;
-
-          // Reset counter after a second
-          if (!this.rateLimitTimer) {
-            this.rateLimitTimer = setTimeout(() => {
-              this.requestsThisSecond = 0;
-              this.rateLimitTimer = null;
-            }, 1000);
-          }
-
-          // Execute the request
-          const result = await fn();
-          resolve(result);
-        } catch (error) {
-          reject(error);
-        } finally {
-          // Process the next request in the queue
-          this.processNextRequest();
-        }
-      };
-
-      // Add to queue and process if not already processing
-      this.requestQueue.push(executeRequest);
-
-      if (!this.processingQueue) {
-        this.processNextRequest();
-      }
-    });
-  }
-
-  /**
-   * Process the next request in the queue
-   */
-  private processNextRequest(): void {
-    if (this.requestQueue.length === 0) {
-      this.processingQueue = false;
-      return;
-    }
-
-    this.processingQueue = true;
-    const nextRequest = this.requestQueue.shift();
-
-    if (nextRequest) {
-      nextRequest();
-    }
-  }
-
-  /**
-   * Type guard to check if an object is an Etherscan API response
-   */
-  private isAPIResponse(data: any): data is APIResponse<string> {
-    return (
-      data &&
-      typeof data === 'object' &&
-      'status' in data &&
-      'message' in data &&
-      'result' in data
-    );
-  }
 }
@@ -0,0 +1,276 @@
+/**
+ * Convert raw Etherscan responses to native JavaScript types
+ */
+import { Middleware } from '../types';
+
+type Converter = (value: any) => any;
+
+/**
+ * Convert a decimal or `0x` hex quantity to a bigint
+ */
+function toBigInt(value: any): bigint | undefined {
+  if (value === '' || value === null || value === undefined) {
+    return undefined;
+  }
+
+  return BigInt(value);
+}
+
+/**
+ * Convert a decimal or `0x` hex quantity to a number
+ */
+function toNumber(value: any): number | undefined {
+  if (value === '' || value === null || value === undefined) {
+    return undefined;
+  }
+
+  return Number(value);
+}
+
+/**
+ * Convert a unix timestamp in seconds, decimal or hex, to a Date
+ */
+function toDate(value: any): Date | undefined {
+  const seconds = toNumber(value);
+  return seconds === undefined ? undefined : new Date(seconds * 1000);
+}
+
+/**
+ * Convert a `'0'` / `'1'` flag (or a `0x0` / `0x1` status) to a boolean
+ */
+function toBoolean(value: any): boolean | undefined {
+  const flag = toNumber(value);
+  return flag === undefined ? undefined : flag === 1;
+}
+
+/**
+ * Copy a record, converting the listed fields that are present
+ */
+function convertFields(
+  record: any,
+  converters: Record<string, Converter>
+): any {
+  if (!record || typeof record !== 'object') {
+    return record;
+  }
+
+  const converted = { ...record };
+
+  for (const field of Object.keys(converters)) {
+    if (field in converted) {
+      converted[field] = converters[field](converted[field]);
+    }
+  }
+
+  return converted;
+}
+
+/**
+ * Build a converter for a single record or a list of records
+ */
+function records(converters: Record<string, Converter>): Converter {
+  return (result) =>
+    Array.isArray(result)
+      ? result.map((record) => convertFields(record, converters))
+      : convertFields(result, converters);
+}
+
+const TRANSACTION_FIELDS: Record<string, Converter> = {
+  blockNumber: toNumber,
+  timeStamp: toDate,
+  nonce: toNumber,
+  transactionIndex: toNumber,
+  value: toBigInt,
+  gas: toBigInt,
+  gasPrice: toBigInt,
+  gasUsed: toBigInt,
+  cumulativeGasUsed: toBigInt,
+  confirmations: toNumber,
+  isError: toBoolean,
+  txreceipt_status: toBoolean,
+};
+
+const INTERNAL_TRANSACTION_FIELDS: Record<string, Converter> = {
+  blockNumber: toNumber,
+  timeStamp: toDate,
+  value: toBigInt,
+  gas: toBigInt,
+  gasUsed: toBigInt,
+  isError: toBoolean,
+};
+
+// Token ids stay strings, they are identifiers rather than quantities
+const TRANSFER_FIELDS: Record<string, Converter> = {
+  blockNumber: toNumber,
+  timeStamp: toDate,
+  nonce: toNumber,
+  transactionIndex: toNumber,
+  logIndex: toNumber,
+  tokenDecimal: toNumber,
+  gas: toBigInt,
+  gasPrice: toBigInt,
+  gasUsed: toBigInt,
+  cumulativeGasUsed: toBigInt,
+  confirmations: toNumber,
+};
+
+const LOG_FIELDS: Record<string, Converter> = {
+  blockNumber: toNumber,
+  timeStamp: toDate,
+  gasPrice: toBigInt,
+  gasUsed: toBigInt,
+  logIndex: toNumber,
+  transactionIndex: toNumber,
+};
+
+const RPC_LOG_FIELDS: Record<string, Converter> = {
+  blockNumber: toNumber,
+  transactionIndex: toNumber,
+  logIndex: toNumber,
+};
+
+const RPC_TRANSACTION_FIELDS: Record<string, Converter> = {
+  nonce: toNumber,
+  blockNumber: toNumber,
+  transactionIndex: toNumber,
+  value: toBigInt,
+  gas: toBigInt,
+  gasPrice: toBigInt,
+};
+
+const RPC_BLOCK_FIELDS: Record<string, Converter> = {
+  number: toNumber,
+  difficulty: toBigInt,
+  totalDifficulty: toBigInt,
+  size: toNumber,
+  gasLimit: toBigInt,
+  gasUsed: toBigInt,
+  baseFeePerGas: toBigInt,
+  timestamp: toDate,
+  // Transactions are hashes unless full transactions were requested
+  transactions: (transactions) =>
+    Array.isArray(transactions)
+      ? transactions.map((transaction) =>
+          convertFields(transaction, RPC_TRANSACTION_FIELDS)
+        )
+      : transactions,
+};
+
+const RPC_RECEIPT_FIELDS: Record<string, Converter> = {
+  transactionIndex: toNumber,
+  blockNumber: toNumber,
+  cumulativeGasUsed: toBigInt,
+  gasUsed: toBigInt,
+  effectiveGasPrice: toBigInt,
+  status: toBoolean,
+  logs: records(RPC_LOG_FIELDS),
+};
+
+/**
+ * Result converters keyed on `module.action`, actions without one are left untouched
+ */
+const NORMALIZERS: Record<string, Converter> = {
+  'account.balance': toBigInt,
+  'account.balancemulti': records({ balance: toBigInt }),
+  'account.tokenbalance': toBigInt,
+  'account.balancehistory': toBigInt,
+  'account.tokenbalancehistory': toBigInt,
+  'account.txlist': records(TRANSACTION_FIELDS),
+  'account.txlistinternal': records(INTERNAL_TRANSACTION_FIELDS),
+  'account.tokentx': records({ ...TRANSFER_FIELDS, value: toBigInt }),
+  'account.tokennfttx': records(TRANSFER_FIELDS),
+  'account.token1155tx': records({ ...TRANSFER_FIELDS, tokenValue: toBigInt }),
+  'account.getminedblocks': records({
+    blockNumber: toNumber,
+    timeStamp: toDate,
+    blockReward: toBigInt,
+  }),
+  'account.addresstokenbalance': records({
+    TokenQuantity: toBigInt,
+    TokenDivisor: toNumber,
+  }),
+  'account.addresstokennftbalance': records({ TokenQuantity: toNumber }),
+  'account.txsBeaconWithdrawal': records({
+    withdrawalIndex: toNumber,
+    validatorIndex: toNumber,
+    amount: toBigInt,
+    blockNumber: toNumber,
+    timestamp: toDate,
+  }),
+  'block.getblocknobytime': toNumber,
+  'logs.getLogs': records(LOG_FIELDS),
+  'gastracker.gasoracle': records({
+    LastBlock: toNumber,
+    SafeGasPrice: toNumber,
+    ProposeGasPrice: toNumber,
+    FastGasPrice: toNumber,
+    suggestBaseFee: toNumber,
+    gasUsedRatio: (ratios) =>
+      typeof ratios === 'string' ? ratios.split(',').map(Number) : ratios,
+  }),
+  'stats.ethprice': records({
+    ethbtc: toNumber,
+    ethbtc_timestamp: toDate,
+    ethusd: toNumber,
+    ethusd_timestamp: toDate,
+  }),
+  'stats.ethsupply': (result) =>
+    typeof result === 'string'
+      ? toBigInt(result)
+      : convertFields(result, { EthSupply: toBigInt }),
+  'stats.ethsupply2': records({
+    EthSupply: toBigInt,
+    Eth2Staking: toBigInt,
+    BurntFees: toBigInt,
+    WithdrawnTotal: toBigInt,
+  }),
+  'stats.tokensupply': toBigInt,
+  'stats.tokensupplyhistory': toBigInt,
+  'token.tokenholderlist': records({ TokenHolderQuantity: toBigInt }),
+  'token.tokenholdercount': toNumber,
+  'proxy.eth_blockNumber': toNumber,
+  'proxy.eth_getTransactionCount': toNumber,
+  'proxy.eth_getBlockTransactionCountByNumber': toNumber,
+  'proxy.eth_getBlockTransactionCountByHash': toNumber,
+  'proxy.eth_getUncleCountByBlockNumber': toNumber,
+  'proxy.eth_getUncleCountByBlockHash': toNumber,
+  'proxy.eth_gasPrice': toBigInt,
+  'proxy.eth_estimateGas': toBigInt,
+  'proxy.eth_getBlockByNumber': records(RPC_BLOCK_FIELDS),
+  'proxy.eth_getBlockByHash': records(RPC_BLOCK_FIELDS),
+  'proxy.eth_getUncleByBlockNumberAndIndex': records(RPC_BLOCK_FIELDS),
+  'proxy.eth_getUncleByBlockHashAndIndex': records(RPC_BLOCK_FIELDS),
+  'proxy.eth_getTransactionByHash': records(RPC_TRANSACTION_FIELDS),
+  'proxy.eth_getTransactionByBlockNumberAndIndex': records(
+    RPC_TRANSACTION_FIELDS
+  ),
+  'proxy.eth_getTransactionByBlockHashAndIndex': records(
+    RPC_TRANSACTION_FIELDS
+  ),
+  'proxy.eth_getTransactionReceipt': records(RPC_RECEIPT_FIELDS),
+  'proxy.eth_getLogs': records(RPC_LOG_FIELDS),
+};
+
+/**
+ * Create a middleware that converts quantities to `bigint` or `number`,
+ * timestamps to `Date` and flags to booleans. Responses are copied, so
+ * cached and de-duplicated responses keep their raw shape.
+ */
+export function createNormalizeMiddleware(): Middleware {
+  return async (context, next) => {
+    const response = await next();
+    const normalizer = NORMALIZERS[`${context.module}.${context.action}`];
+
+    if (
+      context.options.normalize === false ||
+      !normalizer ||
+      !response ||
+      response.result === null ||
+      response.result === undefined
+    ) {
+      return response;
+    }
+
+    return { ...response, result: normalizer(response.result) };
+  };
+}
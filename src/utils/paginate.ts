@@ -0,0 +1,221 @@
+/**
+ * Async iteration over paginated endpoints
+ */
+import {
+  BlockRangeRequest,
+  EtherscanValidationError,
+  PaginateOptions,
+  ResultWindowTooLargeError,
+} from '../types';
+import { DEFAULT_PAGE_SIZE, MAX_RESULT_WINDOW } from '../constants';
+
+/**
+ * Fetch a single page of records
+ */
+export type PageFetcher<T> = (page: number, offset: number) => Promise<T[]>;
+
+/**
+ * Fetch a single page of records in a block range, sorted by block ascending
+ */
+export type BlockRangeFetcher<T> = (
+  startBlock: number,
+  endBlock: number | undefined,
+  page: number,
+  offset: number
+) => Promise<T[]>;
+
+/**
+ * Walk through a paginated endpoint, yielding one page at a time.
+ * Pages are only requested as they are consumed, so breaking out of the loop
+ * stops fetching. Iteration ends on the first short page, or once the next page
+ * would cross the 10,000 result window Etherscan allows per query.
+ * @example
+ * ```ts
+ * const pages = paginate(
+ *   (page, offset) => sdk.accounts.getTransactions({ address, page, offset }),
+ *   { pageSize: 500 }
+ * );
+ *
+ * for await (const transactions of pages) {
+ *   console.log(transactions.length); // 500
+ * }
+ * ```
+ */
+export async function* paginate<T>(
+  fetchPage: PageFetcher<T>,
+  options: PaginateOptions = {}
+): AsyncGenerator<T[], void, undefined> {
+  const pageSize = resolvePageSize(options.pageSize);
+  let page = options.startPage || 1;
+
+  while (true) {
+    const items = await fetchPage(page, pageSize);
+
+    if (items.length > 0) {
+      yield items;
+    }
+
+    if (items.length < pageSize || (page + 1) * pageSize > MAX_RESULT_WINDOW) {
+      return;
+    }
+
+    page++;
+  }
+}
+
+/**
+ * Walk through a block range past the 10,000 result window, yielding pages in
+ * block order. Whenever a window fills up, the walk restarts from the last block
+ * it saw. Records of that block are held back until the block is complete, so
+ * none is skipped or yielded twice.
+ * @example
+ * ```ts
+ * const pages = paginateBlockRange((startBlock, endBlock, page, offset) =>
+ *   sdk.accounts.getTransactions({
+ *     address, startBlock, endBlock, page, offset, sort: 'asc'
+ *   })
+ * );
+ * ```
+ */
+export async function* paginateBlockRange<T extends { blockNumber: string }>(
+  fetchPage: BlockRangeFetcher<T>,
+  options: PaginateOptions & BlockRangeRequest = {}
+): AsyncGenerator<T[], void, undefined> {
+  const pageSize = resolvePageSize(options.pageSize);
+  const { endBlock } = options;
+  let startBlock = options.startBlock || 0;
+  let page = 1;
+  let pending: T[] = [];
+
+  while (true) {
+    const items = await fetchPage(startBlock, endBlock, page, pageSize);
+    const records = pending.concat(items);
+
+    if (items.length < pageSize) {
+      if (records.length > 0) {
+        yield records;
+      }
+
+      return;
+    }
+
+    // The last block may continue on the next page, hold its records back
+    const lastBlock = Number(records[records.length - 1].blockNumber);
+    const boundary = records.findIndex(
+      (record) => Number(record.blockNumber) === lastBlock
+    );
+
+    if (boundary > 0) {
+      yield records.slice(0, boundary);
+    }
+
+    pending = records.slice(boundary);
+
+    if ((page + 1) * pageSize <= MAX_RESULT_WINDOW) {
+      page++;
+      continue;
+    }
+
+    // The window is full, start a new query at the last block
+    if (lastBlock === startBlock) {
+      throw new ResultWindowTooLargeError(
+        `More than ${MAX_RESULT_WINDOW} records in block ${lastBlock}`
+      );
+    }
+
+    startBlock = lastBlock;
+    page = 1;
+    pending = [];
+  }
+}
+
+function resolvePageSize(pageSize: number = DEFAULT_PAGE_SIZE): number {
+  if (!Number.isInteger(pageSize) || pageSize <= 0) {
+    throw new EtherscanValidationError('Page size must be a positive integer');
+  }
+
+  return pageSize;
+}
+
+/**
+ * Records of a block range that has been completely fetched
+ */
+export interface BlockRangePage<T> {
+  startBlock: number;
+  endBlock: number;
+  items: T[];
+}
+
+/**
+ * Walk through a block range with an endpoint that caps every query at
+ * `pageSize` records. A range that fills a page is split in half until each
+ * half fits, and a single block that fills a page is paged through. Ranges
+ * are yielded in block order, including empty ones.
+ */
+export async function* bisectBlockRange<T>(
+  fetchPage: (
+    startBlock: number,
+    endBlock: number,
+    page: number,
+    offset: number
+  ) => Promise<T[]>,
+  options: PaginateOptions & Required<BlockRangeRequest>
+): AsyncGenerator<BlockRangePage<T>, void, undefined> {
+  const pageSize = resolvePageSize(options.pageSize);
+  const ranges: Array<[number, number]> = [
+    [options.startBlock, options.endBlock],
+  ];
+
+  while (ranges.length > 0) {
+    const [startBlock, endBlock] = ranges.pop()!;
+    const items = await fetchPage(startBlock, endBlock, 1, pageSize);
+
+    if (items.length < pageSize) {
+      yield { startBlock, endBlock, items };
+      continue;
+    }
+
+    if (startBlock < endBlock) {
+      const middle = Math.floor((startBlock + endBlock) / 2);
+
+      // The lower half is pushed last so it is fetched first
+      ranges.push([middle + 1, endBlock], [startBlock, middle]);
+      continue;
+    }
+
+    let blockItems = items;
+
+    for await (const page of paginate(
+      (page, offset) => fetchPage(startBlock, endBlock, page, offset),
+      { pageSize, startPage: 2 }
+    )) {
+      blockItems = blockItems.concat(page);
+    }
+
+    yield { startBlock, endBlock, items: blockItems };
+  }
+}
+
+/**
+ * Collect every item of an async iterable into an array
+ */
+export async function collect<T>(items: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+
+  for await (const item of items) {
+    result.push(item);
+  }
+
+  return result;
+}
+
+/**
+ * Yield the items of every page in order
+ */
+export async function* flattenPages<T>(
+  pages: AsyncIterable<T[]>
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of pages) {
+    yield* page;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Action differences between Etherscan and Etherscan-compatible explorers
+ */
+import { ApiProvider } from '../types';
+
+interface ActionAdapter {
+  /** Name of the action on the provider */
+  action: string;
+  /** Rename or convert the request parameters for the provider */
+  params?: (params: Record<string, any>) => Record<string, any>;
+  /** Convert the provider result to the Etherscan shape */
+  result?: (result: any) => any;
+}
+
+/**
+ * Adapters keyed on the Etherscan `module.action`
+ */
+const ACTION_ADAPTERS: Record<ApiProvider, Record<string, ActionAdapter>> = {
+  etherscan: {},
+  blockscout: {
+    'account.balancehistory': {
+      action: 'eth_get_balance',
+      params: ({ blockno, ...params }) => ({ ...params, block: blockno }),
+      // Hex encoded wei in a JSON-RPC envelope
+      result: (result: string) => BigInt(result).toString(),
+    },
+    'account.addresstokenbalance': {
+      action: 'tokenlist',
+      result: (result) =>
+        result
+          .filter((token: { type: string }) => token.type === 'ERC-20')
+          .map(
+            (token: {
+              balance: string;
+              contractAddress: string;
+              decimals: string;
+              name: string;
+              symbol: string;
+            }) => ({
+              TokenAddress: token.contractAddress,
+              TokenName: token.name,
+              TokenSymbol: token.symbol,
+              TokenQuantity: token.balance,
+              TokenDivisor: token.decimals,
+            })
+          ),
+    },
+    'block.getblocknobytime': {
+      action: 'getblocknobytime',
+      result: (result) => result.blockNumber,
+    },
+    'stats.ethprice': {
+      action: 'coinprice',
+      result: (result) => ({
+        ethbtc: String(result.coin_btc),
+        ethbtc_timestamp: String(result.coin_btc_timestamp),
+        ethusd: String(result.coin_usd),
+        ethusd_timestamp: String(result.coin_usd_timestamp),
+      }),
+    },
+    'token.tokenholderlist': {
+      action: 'getTokenHolders',
+      result: (result) =>
+        result.map((holder: { address: string; value: string }) => ({
+          TokenHolderAddress: holder.address,
+          TokenHolderQuantity: holder.value,
+        })),
+    },
+    'token.tokeninfo': {
+      action: 'getToken',
+      result: (result) => [
+        {
+          contractAddress: result.contractAddress,
+          tokenName: result.name,
+          symbol: result.symbol,
+          divisor: result.decimals,
+          tokenType: String(result.type).replace('-', ''),
+          totalSupply: result.totalSupply,
+        },
+      ],
+    },
+  },
+  // Routescan serves the Etherscan actions and result shapes as they are
+  routescan: {},
+};
+
+function getAdapter(
+  provider: ApiProvider,
+  module: string,
+  action: string
+): ActionAdapter | undefined {
+  return ACTION_ADAPTERS[provider][`${module}.${action}`];
+}
+
+/**
+ * Rename the action and parameters of a request for the provider
+ */
+export function adaptParams(
+  provider: ApiProvider,
+  params: Record<string, any>
+): Record<string, any> {
+  const adapter = getAdapter(provider, params.module, params.action);
+
+  if (!adapter) {
+    return params;
+  }
+
+  const adapted = adapter.params ? adapter.params(params) : params;
+  return { ...adapted, action: adapter.action };
+}
+
+/**
+ * Convert a successful provider response to the Etherscan shape
+ */
+export function adaptResponse(
+  provider: ApiProvider,
+  module: string,
+  action: string,
+  data: any
+): any {
+  const adapter = getAdapter(provider, module, action);
+
+  if (
+    !adapter?.result ||
+    !data ||
+    data.status === '0' ||
+    data.result === null ||
+    data.result === undefined
+  ) {
+    return data;
+  }
+
+  return { ...data, result: adapter.result(data.result) };
+}
@@ -0,0 +1,226 @@
+/**
+ * Token bucket rate limiter with a daily quota
+ */
+import {
+  DailyLimitError,
+  EtherscanAPIError,
+  EtherscanErrorCode,
+  EtherscanNetworkError,
+  RateLimitState,
+  RequestPriority,
+} from '../types';
+import { ERROR_MESSAGES } from '../constants';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+export interface RateLimiterOptions {
+  /** Sustained requests per second, also the burst size */
+  requestsPerSecond: number;
+  /** Maximum requests per UTC day */
+  requestsPerDay?: number;
+  /** Maximum number of requests waiting for a token */
+  maxQueueLength?: number;
+}
+
+export interface ScheduleOptions {
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+interface QueuedRequest {
+  priority: number;
+  start: () => void;
+}
+
+function validateOptions(options: RateLimiterOptions): void {
+  if (!(options.requestsPerSecond > 0)) {
+    throw new Error('requestsPerSecond must be a positive number');
+  }
+}
+
+export class RateLimiter {
+  private requestsPerSecond: number;
+  private requestsPerDay?: number;
+  private maxQueueLength?: number;
+  private readonly queue: QueuedRequest[] = [];
+  private tokens: number;
+  private lastRefill: number;
+  private day: number;
+  private dailyUsage: number = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimiterOptions) {
+    validateOptions(options);
+
+    this.requestsPerSecond = options.requestsPerSecond;
+    this.requestsPerDay = options.requestsPerDay;
+    this.maxQueueLength = options.maxQueueLength;
+    this.tokens = options.requestsPerSecond;
+    this.lastRefill = Date.now();
+    this.day = Math.floor(this.lastRefill / DAY_IN_MS);
+  }
+
+  /**
+   * Change the limits, keeping the daily usage and the queued requests.
+   * Queued requests continue at the new rate.
+   */
+  public setOptions(options: RateLimiterOptions): void {
+    validateOptions(options);
+
+    // Tokens earned so far count at the old rate
+    this.refill();
+
+    this.requestsPerSecond = options.requestsPerSecond;
+    this.requestsPerDay = options.requestsPerDay;
+    this.maxQueueLength = options.maxQueueLength;
+    this.tokens = Math.min(this.tokens, this.requestsPerSecond);
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Run a function as soon as a token is available. Requests start concurrently
+   * up to the allowed rate, without waiting for earlier requests to finish.
+   * Higher priority requests jump ahead of lower priority ones in the queue.
+   */
+  public schedule<T>(
+    fn: () => Promise<T>,
+    options: ScheduleOptions = {}
+  ): Promise<T> {
+    this.resetDailyUsage();
+
+    if (
+      this.requestsPerDay !== undefined &&
+      this.dailyUsage + this.queue.length >= this.requestsPerDay
+    ) {
+      return Promise.reject(
+        new DailyLimitError(ERROR_MESSAGES.DAILY_LIMIT_REACHED)
+      );
+    }
+
+    if (
+      this.maxQueueLength !== undefined &&
+      this.queue.length >= this.maxQueueLength
+    ) {
+      return Promise.reject(
+        new EtherscanAPIError(
+          EtherscanErrorCode.QUEUE_FULL,
+          ERROR_MESSAGES.QUEUE_FULL
+        )
+      );
+    }
+
+    const { signal } = options;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(request);
+
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+          reject(new EtherscanNetworkError(ERROR_MESSAGES.REQUEST_ABORTED));
+        }
+      };
+
+      const request: QueuedRequest = {
+        priority: PRIORITY_ORDER[options.priority || 'normal'],
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          fn().then(resolve, reject);
+        },
+      };
+
+      if (signal?.aborted) {
+        reject(new EtherscanNetworkError(ERROR_MESSAGES.REQUEST_ABORTED));
+        return;
+      }
+
+      signal?.addEventListener('abort', onAbort);
+
+      // Keep the queue ordered by priority, first in first out within a priority
+      const index = this.queue.findIndex(
+        (queued) => queued.priority > request.priority
+      );
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, request);
+
+      this.drain();
+    });
+  }
+
+  /**
+   * Get a snapshot of the limiter state
+   */
+  public getState(): Omit<RateLimitState, 'enabled'> {
+    this.refill();
+    this.resetDailyUsage();
+
+    return {
+      requestsPerSecond: this.requestsPerSecond,
+      requestsPerDay: this.requestsPerDay,
+      tokensRemaining: Math.floor(this.tokens),
+      queueDepth: this.queue.length,
+      dailyUsage: this.dailyUsage,
+      dailyRemaining:
+        this.requestsPerDay !== undefined
+          ? Math.max(0, this.requestsPerDay - this.dailyUsage)
+          : undefined,
+    };
+  }
+
+  /**
+   * Start as many queued requests as there are tokens, then wait for the next token
+   */
+  private drain(): void {
+    this.refill();
+    this.resetDailyUsage();
+
+    while (this.queue.length > 0 && this.tokens >= 1) {
+      this.tokens--;
+      this.dailyUsage++;
+      this.queue.shift()!.start();
+    }
+
+    if (this.queue.length > 0 && !this.timer) {
+      const wait = ((1 - this.tokens) / this.requestsPerSecond) * 1000;
+
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.ceil(wait));
+    }
+  }
+
+  /**
+   * Add the tokens earned since the last refill, capped at one second worth of requests
+   */
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.requestsPerSecond;
+
+    this.tokens = Math.min(this.requestsPerSecond, this.tokens + earned);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Reset the daily usage counter when a new UTC day starts
+   */
+  private resetDailyUsage(): void {
+    const day = Math.floor(Date.now() / DAY_IN_MS);
+
+    if (day !== this.day) {
+      this.day = day;
+      this.dailyUsage = 0;
+    }
+  }
+}
@@ -0,0 +1,404 @@
+/**
+ * Runtime schemas of the `result` field returned by every module action
+ */
+import {
+  Accounts,
+  Blocks,
+  Contracts,
+  Gas,
+  Logs,
+  Proxy,
+  Stats,
+  Tokens,
+  Transactions,
+} from '../types';
+import {
+  Schema,
+  array,
+  boolean,
+  nullable,
+  numeric,
+  object,
+  oneOf,
+  optional,
+  string,
+} from './schema';
+
+const balance = object<Accounts.BalanceResponse>({
+  account: string,
+  balance: string,
+});
+
+const transaction = object<Accounts.TransactionsResponse[number]>({
+  blockNumber: string,
+  timeStamp: string,
+  hash: string,
+  nonce: string,
+  blockHash: string,
+  transactionIndex: string,
+  from: string,
+  to: string,
+  value: string,
+  gas: string,
+  gasPrice: string,
+  isError: string,
+  txreceipt_status: string,
+  input: string,
+  contractAddress: string,
+  cumulativeGasUsed: string,
+  gasUsed: string,
+  confirmations: string,
+});
+
+const internalTransaction = object<
+  Accounts.InternalTransactionsResponse[number]
+>({
+  blockNumber: string,
+  timeStamp: string,
+  // Lookups by transaction hash leave out the hash itself
+  hash: optional(string),
+  from: string,
+  to: string,
+  value: string,
+  contractAddress: string,
+  input: string,
+  type: string,
+  gas: string,
+  gasUsed: string,
+  traceId: optional(string),
+  isError: string,
+  errCode: string,
+});
+
+const transferFields = {
+  blockNumber: string,
+  timeStamp: string,
+  hash: string,
+  nonce: string,
+  blockHash: string,
+  from: string,
+  contractAddress: string,
+  to: string,
+  tokenName: string,
+  tokenSymbol: string,
+  transactionIndex: string,
+  logIndex: optional(string),
+  gas: string,
+  gasPrice: string,
+  gasUsed: string,
+  cumulativeGasUsed: string,
+  input: string,
+  confirmations: string,
+};
+
+const tokenTransfer = object<Accounts.TokenTransferResponse>({
+  ...transferFields,
+  value: string,
+  tokenDecimal: string,
+});
+
+const nftTransfer = object<Accounts.NFTTransferResponse>({
+  ...transferFields,
+  tokenID: string,
+  tokenDecimal: string,
+});
+
+const erc1155Transfer = object<Accounts.ERC1155TransferResponse>({
+  ...transferFields,
+  tokenID: string,
+  tokenValue: string,
+});
+
+const minedBlock = object<Accounts.MinedBlockResponse>({
+  blockNumber: string,
+  timeStamp: string,
+  blockReward: string,
+});
+
+const log = object<Logs.Log>({
+  address: string,
+  topics: array(string),
+  data: string,
+  blockNumber: string,
+  timeStamp: string,
+  gasPrice: string,
+  gasUsed: string,
+  logIndex: string,
+  transactionHash: string,
+  transactionIndex: string,
+});
+
+const rpcTransaction = object<Proxy.TransactionResponse>({
+  hash: string,
+  nonce: string,
+  // Pending transactions have no block yet
+  blockHash: nullable(string),
+  blockNumber: nullable(string),
+  transactionIndex: nullable(string),
+  from: string,
+  // Contract creations have no recipient
+  to: nullable(string),
+  value: string,
+  gas: string,
+  gasPrice: string,
+  input: string,
+});
+
+const rpcBlock = object<Proxy.BlockResponse>({
+  number: nullable(string),
+  hash: nullable(string),
+  parentHash: string,
+  nonce: nullable(string),
+  sha3Uncles: string,
+  logsBloom: nullable(string),
+  transactionsRoot: string,
+  stateRoot: string,
+  receiptsRoot: string,
+  miner: string,
+  difficulty: string,
+  totalDifficulty: optional(string),
+  extraData: string,
+  size: string,
+  gasLimit: string,
+  gasUsed: string,
+  timestamp: string,
+  // Hashes, unless full transactions were requested. Uncles have none.
+  transactions: optional(array(oneOf(string, rpcTransaction))),
+  uncles: array(string),
+});
+
+const rpcLog = object<Proxy.LogResponse>({
+  address: string,
+  topics: array(string),
+  data: string,
+  blockNumber: string,
+  transactionHash: string,
+  transactionIndex: string,
+  blockHash: string,
+  logIndex: string,
+  removed: boolean,
+});
+
+const rpcReceipt = object<Proxy.TransactionReceiptResponse>({
+  transactionHash: string,
+  transactionIndex: string,
+  blockNumber: string,
+  blockHash: string,
+  cumulativeGasUsed: string,
+  gasUsed: string,
+  contractAddress: nullable(string),
+  logs: array(rpcLog),
+  status: string,
+});
+
+const gasOracle = object<Gas.GasOracleResponse>({
+  LastBlock: string,
+  SafeGasPrice: string,
+  ProposeGasPrice: string,
+  FastGasPrice: string,
+  suggestBaseFee: string,
+  gasUsedRatio: string,
+});
+
+const ethSupply = object<Stats.EthSupplyResponse>({
+  EthSupply: string,
+  Eth2Staking: string,
+  BurntFees: string,
+});
+
+const nodeSize = object<Stats.EthNodeSizeResponse>({
+  blockNumber: string,
+  chainNeeded: string,
+  pruningNeeded: string,
+  archiveNeeded: string,
+});
+
+function daily(field: string, value: Schema): Schema {
+  return array(object({ UTCDate: string, [field]: value }));
+}
+
+/**
+ * Schemas keyed on `module.action`, actions without one are not checked
+ */
+export const RESPONSE_SCHEMAS: Record<string, Schema> = {
+  'account.balance': string,
+  'account.balancemulti': array(balance),
+  'account.tokenbalance': string,
+  'account.balancehistory': string,
+  'account.tokenbalancehistory': string,
+  'account.txlist': array(transaction),
+  'account.txlistinternal': array(internalTransaction),
+  'account.tokentx': array(tokenTransfer),
+  'account.tokennfttx': array(nftTransfer),
+  'account.token1155tx': array(erc1155Transfer),
+  'account.getminedblocks': array(minedBlock),
+  'account.addresstokenbalance': array(
+    object<Tokens.AddressTokenBalanceResponse>({
+      TokenAddress: string,
+      TokenName: string,
+      TokenSymbol: string,
+      TokenQuantity: string,
+      TokenDivisor: string,
+    })
+  ),
+  'account.addresstokennftbalance': array(
+    object<Tokens.AddressNFTBalanceResponse>({
+      TokenAddress: string,
+      TokenName: string,
+      TokenSymbol: string,
+      TokenQuantity: string,
+    })
+  ),
+  'account.addresstokennftinventory': array(
+    object<Tokens.AddressNFTInventoryResponse>({
+      TokenAddress: string,
+      TokenId: string,
+    })
+  ),
+  'account.txsBeaconWithdrawal': array(
+    object<Accounts.BeaconWithdrawalResponse>({
+      withdrawalIndex: string,
+      validatorIndex: string,
+      address: string,
+      amount: string,
+      blockNumber: string,
+      timestamp: string,
+    })
+  ),
+  'block.getblockreward': object<Blocks.BlockRewardResponse>({
+    blockNumber: string,
+    timeStamp: string,
+    blockMiner: string,
+    blockReward: string,
+    uncles: array(
+      object({ miner: string, unclePosition: string, blockreward: string })
+    ),
+    uncleInclusionReward: string,
+  }),
+  'block.getblockcountdown': object<Blocks.BlockCountdownResponse>({
+    CurrentBlock: string,
+    CountdownBlock: string,
+    RemainingBlock: string,
+    EstimateTimeInSec: string,
+  }),
+  'block.getblocknobytime': string,
+  'contract.getabi': string,
+  'contract.getsourcecode': array(
+    object<Contracts.SourceCodeResponse>({
+      SourceCode: string,
+      ABI: string,
+      ContractName: string,
+      CompilerVersion: string,
+      OptimizationUsed: string,
+      Runs: string,
+      ConstructorArguments: string,
+      EVMVersion: string,
+      Library: string,
+      LicenseType: string,
+      Proxy: string,
+      Implementation: string,
+      SwarmSource: string,
+    })
+  ),
+  'contract.getcontractcreation': array(
+    object({ contractAddress: string, contractCreator: string, txHash: string })
+  ),
+  'gastracker.gasoracle': gasOracle,
+  'gastracker.gasestimate': string,
+  'logs.getLogs': array(log),
+  'proxy.eth_blockNumber': string,
+  'proxy.eth_getBlockByNumber': nullable(rpcBlock),
+  'proxy.eth_getBlockByHash': nullable(rpcBlock),
+  'proxy.eth_getUncleByBlockNumberAndIndex': nullable(rpcBlock),
+  'proxy.eth_getUncleByBlockHashAndIndex': nullable(rpcBlock),
+  'proxy.eth_getTransactionByHash': nullable(rpcTransaction),
+  'proxy.eth_getTransactionByBlockNumberAndIndex': nullable(rpcTransaction),
+  'proxy.eth_getTransactionByBlockHashAndIndex': nullable(rpcTransaction),
+  'proxy.eth_getTransactionReceipt': nullable(rpcReceipt),
+  'proxy.eth_getTransactionCount': string,
+  'proxy.eth_getBlockTransactionCountByNumber': nullable(string),
+  'proxy.eth_getBlockTransactionCountByHash': nullable(string),
+  'proxy.eth_getUncleCountByBlockNumber': nullable(string),
+  'proxy.eth_getUncleCountByBlockHash': nullable(string),
+  'proxy.eth_getCode': string,
+  'proxy.eth_getStorageAt': string,
+  'proxy.eth_gasPrice': string,
+  'proxy.eth_estimateGas': string,
+  'proxy.eth_call': string,
+  'proxy.eth_sendRawTransaction': string,
+  'proxy.eth_getLogs': array(rpcLog),
+  'proxy.eth_syncing': oneOf(
+    boolean,
+    object<Proxy.SyncingStatusResponse>({
+      startingBlock: string,
+      currentBlock: string,
+      highestBlock: string,
+      knownStates: optional(string),
+      pulledStates: optional(string),
+    })
+  ),
+  'proxy.eth_getWork': object<Proxy.WorkResponse>({
+    currentBlockHeader: string,
+    seedHash: string,
+    target: string,
+  }),
+  'stats.ethprice': object<Stats.EthPriceResponse>({
+    ethbtc: string,
+    ethbtc_timestamp: string,
+    ethusd: string,
+    ethusd_timestamp: string,
+  }),
+  'stats.ethsupply': oneOf(string, ethSupply),
+  'stats.ethsupply2': ethSupply,
+  'stats.nodecount': numeric,
+  'stats.chainsize': oneOf(nodeSize, array(nodeSize)),
+  'stats.dailytxnfee': daily('transactionFee_ETH', string),
+  'stats.dailynewaddress': daily('newAddressCount', numeric),
+  'stats.dailytx': daily('transactionCount', numeric),
+  'stats.dailyavgblocksize': daily('avgBlockSize', numeric),
+  'stats.dailyavgblocktime': daily('avgBlockTime', numeric),
+  'stats.dailyuncleblkcount': daily('uncleCount', numeric),
+  'stats.tokensupply': string,
+  'stats.tokensupplyhistory': string,
+  'token.tokenholderlist': array(
+    object<Tokens.TokenHolderResponse>({
+      TokenHolderAddress: string,
+      TokenHolderQuantity: string,
+    })
+  ),
+  'token.tokenholdercount': numeric,
+  'token.tokeninfo': array(
+    object<Tokens.TokenInfoResponse>({
+      contractAddress: string,
+      tokenName: string,
+      symbol: string,
+      divisor: string,
+      tokenType: string,
+      totalSupply: string,
+      blueCheckmark: optional(string),
+      description: optional(string),
+      website: optional(string),
+      email: optional(string),
+      blog: optional(string),
+      reddit: optional(string),
+      slack: optional(string),
+      facebook: optional(string),
+      twitter: optional(string),
+      bitcointalk: optional(string),
+      github: optional(string),
+      telegram: optional(string),
+      wechat: optional(string),
+      linkedin: optional(string),
+      discord: optional(string),
+      whitepaper: optional(string),
+      tokenPriceUSD: optional(string),
+    })
+  ),
+  'transaction.getstatus': object<Transactions.StatusResponse>({
+    isError: string,
+    errDescription: string,
+  }),
+  'transaction.gettxreceiptstatus': object<Transactions.ReceiptStatusResponse>({
+    status: string,
+  }),
+};
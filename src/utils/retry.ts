@@ -0,0 +1,144 @@
+/**
+ * Retry helpers for the HTTP client
+ */
+import {
+  DailyLimitError,
+  EtherscanAPIError,
+  EtherscanNetworkError,
+  EtherscanValidationError,
+  InvalidApiKeyError,
+  RateLimitError,
+  RetryOptions,
+} from '../types';
+import { DEFAULT_RETRY_OPTIONS, ERROR_MESSAGES } from '../constants';
+import { cleanObject } from './cleanObject';
+
+export type ResolvedRetryOptions = Required<RetryOptions>;
+
+/**
+ * Merge user supplied retry options with the defaults
+ */
+export function resolveRetryOptions(
+  retry?: RetryOptions | boolean
+): ResolvedRetryOptions {
+  if (retry === false) {
+    return { ...DEFAULT_RETRY_OPTIONS, maxAttempts: 1 };
+  }
+
+  if (retry === undefined || retry === true) {
+    return { ...DEFAULT_RETRY_OPTIONS };
+  }
+
+  return { ...DEFAULT_RETRY_OPTIONS, ...cleanObject(retry) };
+}
+
+/**
+ * Check if an API error is a (per-second) rate limit rejection.
+ * Daily limits are not considered transient.
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof RateLimitError && !(error instanceof DailyLimitError);
+}
+
+/**
+ * Check if a failed request should be attempted again
+ */
+export function isRetryableError(
+  error: unknown,
+  options: ResolvedRetryOptions
+): boolean {
+  if (error instanceof EtherscanValidationError) {
+    return false;
+  }
+
+  // Bad keys and used up daily budgets are handled by key rotation instead
+  if (error instanceof InvalidApiKeyError || error instanceof DailyLimitError) {
+    return false;
+  }
+
+  if (error instanceof EtherscanAPIError && isRateLimitError(error)) {
+    return options.retryOnRateLimit;
+  }
+
+  // Client errors other than timeouts and throttling will not go away on their own
+  if (
+    error instanceof EtherscanNetworkError &&
+    error.status !== undefined &&
+    error.status >= 400 &&
+    error.status < 500 &&
+    error.status !== 408 &&
+    error.status !== 429
+  ) {
+    return false;
+  }
+
+  return options.retryOn.some((ErrorClass) => error instanceof ErrorClass);
+}
+
+/**
+ * Compute the delay before the next attempt using exponential backoff with full jitter
+ */
+export function getRetryDelay(
+  attempt: number,
+  error: unknown,
+  options: ResolvedRetryOptions
+): number {
+  if (
+    options.respectRetryAfter &&
+    error instanceof EtherscanNetworkError &&
+    error.retryAfter !== undefined
+  ) {
+    return Math.min(error.retryAfter, options.maxDelay);
+  }
+
+  const delay = Math.min(
+    options.maxDelay,
+    options.baseDelay * 2 ** (attempt - 1)
+  );
+
+  return options.jitter ? Math.round(Math.random() * delay) : delay;
+}
+
+/**
+ * Parse a `Retry-After` header (seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Wait for the given number of milliseconds, rejecting as soon as the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new EtherscanNetworkError(ERROR_MESSAGES.REQUEST_ABORTED));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new EtherscanNetworkError(ERROR_MESSAGES.REQUEST_ABORTED));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,135 @@
+/**
+ * Minimal runtime schemas used to check the shape of API responses
+ */
+
+/**
+ * Where and why a value does not match its schema
+ */
+export interface SchemaIssue {
+  /** Path of the offending field, e.g. `result[0].blockNumber` */
+  path: string;
+  /** Description of the expected value */
+  expected: string;
+  /** Type of the value that was found */
+  received: string;
+}
+
+/**
+ * Check a value, returning the first mismatch or `undefined` if it matches
+ */
+export type Schema = (value: unknown, path: string) => SchemaIssue | undefined;
+
+/**
+ * Describe the type of a value for error messages
+ */
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+function primitive(type: 'string' | 'number' | 'boolean'): Schema {
+  return (value, path) =>
+    typeof value === type
+      ? undefined
+      : { path, expected: type, received: describe(value) };
+}
+
+export const string = primitive('string');
+export const number = primitive('number');
+export const boolean = primitive('boolean');
+
+/**
+ * A number, or a string holding a decimal number
+ */
+export const numeric: Schema = (value, path) =>
+  typeof value === 'number' ||
+  (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)))
+    ? undefined
+    : { path, expected: 'numeric', received: describe(value) };
+
+/**
+ * Accept `undefined` in addition to the given schema
+ */
+export function optional(schema: Schema): Schema {
+  return (value, path) =>
+    value === undefined ? undefined : schema(value, path);
+}
+
+/**
+ * Accept `null` in addition to the given schema
+ */
+export function nullable(schema: Schema): Schema {
+  return (value, path) => (value === null ? undefined : schema(value, path));
+}
+
+/**
+ * Accept values matching any of the given schemas
+ */
+export function oneOf(...schemas: Schema[]): Schema {
+  return (value, path) => {
+    const issues = schemas.map((schema) => schema(value, path));
+
+    if (issues.some((issue) => issue === undefined)) {
+      return undefined;
+    }
+
+    return {
+      path,
+      expected: issues.map((issue) => issue!.expected).join(' | '),
+      received: describe(value),
+    };
+  };
+}
+
+/**
+ * An array whose items all match the given schema
+ */
+export function array(item: Schema): Schema {
+  return (value, path) => {
+    if (!Array.isArray(value)) {
+      return { path, expected: 'array', received: describe(value) };
+    }
+
+    for (let index = 0; index < value.length; index++) {
+      const issue = item(value[index], `${path}[${index}]`);
+
+      if (issue) {
+        return issue;
+      }
+    }
+
+    return undefined;
+  };
+}
+
+/**
+ * An object with the given fields, extra fields are allowed. Passing the
+ * response type makes the compiler check that every field has a schema.
+ */
+export function object<T = Record<string, unknown>>(shape: {
+  [K in keyof T]-?: Schema;
+}): Schema {
+  const fields = Object.keys(shape) as Array<keyof T & string>;
+
+  return (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { path, expected: 'object', received: describe(value) };
+    }
+
+    for (const field of fields) {
+      const issue = shape[field](
+        (value as Record<string, unknown>)[field],
+        `${path}.${field}`
+      );
+
+      if (issue) {
+        return issue;
+      }
+    }
+
+    return undefined;
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Default transport backed by the global fetch
+ */
+import { Transport } from '../types';
+
+export const fetchTransport: Transport = (request) =>
+  fetch(request.url, {
+    method: request.method,
+    headers: request.headers,
+    body: request.body,
+    signal: request.signal,
+  });